@@ -13,9 +13,14 @@ import AskQuestion from "./pages/AskQuestion";
 import QuestionDetail from "./pages/QuestionDetail";
 import StudyGroups from "./pages/StudyGroups";
 import GroupDetail from "./pages/GroupDetail";
+import GroupInvite from "./pages/GroupInvite";
+import GroupNotes from "./pages/GroupNotes";
 import CreateGroup from "./pages/CreateGroup";
 import Resources from "./pages/Resources";
 import Profile from "./pages/Profile";
+import Search from "./pages/Search";
+import TagDetail from "./pages/TagDetail";
+import Notifications from "./pages/Notifications";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -38,9 +43,14 @@ const App = () => (
               <Route path="/questions/:id" element={<QuestionDetail />} />
               <Route path="/groups" element={<StudyGroups />} />
               <Route path="/groups/create" element={<CreateGroup />} />
+              <Route path="/groups/join/:token" element={<GroupInvite />} />
               <Route path="/groups/:id" element={<GroupDetail />} />
+              <Route path="/groups/:id/notes/:noteId?" element={<GroupNotes />} />
               <Route path="/resources" element={<Resources />} />
               <Route path="/profile" element={<Profile />} />
+              <Route path="/search" element={<Search />} />
+              <Route path="/tags/:name" element={<TagDetail />} />
+              <Route path="/notifications" element={<Notifications />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
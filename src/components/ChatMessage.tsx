@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Pencil, Reply, SmilePlus, Trash2 } from 'lucide-react';
+import MessageAttachment from '@/components/MessageAttachment';
+import { ChatMessageData, MessageReaction } from '@/lib/chat';
+
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '🤔', '👀'];
+
+interface ChatMessageProps {
+  message: ChatMessageData;
+  // The quoted message, if it is loaded
+  replyTo?: ChatMessageData;
+  reactions: MessageReaction[];
+  currentUserId?: string;
+  canModerate: boolean;
+  onReply: (message: ChatMessageData) => void;
+  onEdit: (message: ChatMessageData, content: string) => Promise<void>;
+  onDelete: (message: ChatMessageData) => void;
+  onToggleReaction: (message: ChatMessageData, emoji: string) => void;
+}
+
+const getInitials = (name: string) => {
+  return name.split(' ').map(n => n[0]).join('').toUpperCase();
+};
+
+const formatTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const scrollToMessage = (messageId: string) => {
+  document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+};
+
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  replyTo,
+  reactions,
+  currentUserId,
+  canModerate,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleReaction
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const isAuthor = message.user_id === currentUserId;
+  const isDeleted = !!message.deleted_at;
+  // File messages whose caption is just the file name don't repeat it as text
+  const showText = !(message.file_url && message.content === message.file_name);
+
+  // One chip per emoji, in the order they were first used
+  const grouped = [...new Set(reactions.map(r => r.emoji))].map(emoji => {
+    const matching = reactions.filter(r => r.emoji === emoji);
+    return { emoji, count: matching.length, reacted: matching.some(r => r.user_id === currentUserId) };
+  });
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setEditing(true);
+  };
+
+  const saveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content || content === message.content) {
+      setEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onEdit(message, content);
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div id={`message-${message.id}`} className="group flex gap-3">
+      <Avatar className="h-8 w-8 mt-1">
+        <AvatarImage src={message.profile.avatar_url} />
+        <AvatarFallback className="text-xs">
+          {getInitials(message.profile.full_name)}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="text-sm font-medium">
+            {message.profile.full_name}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {formatTime(message.created_at)}
+          </span>
+          {message.edited_at && !isDeleted && (
+            <span className="text-xs text-muted-foreground" title={new Date(message.edited_at).toLocaleString()}>
+              (edited)
+            </span>
+          )}
+
+          {!isDeleted && !editing && (
+            <div className="ml-auto flex items-center opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label="Add reaction">
+                    <SmilePlus className="h-3.5 w-3.5" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-1" align="end">
+                  <div className="flex gap-1">
+                    {REACTION_EMOJIS.map(emoji => (
+                      <Button
+                        key={emoji}
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-base"
+                        onClick={() => onToggleReaction(message, emoji)}
+                      >
+                        {emoji}
+                      </Button>
+                    ))}
+                  </div>
+                </PopoverContent>
+              </Popover>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label="Reply" onClick={() => onReply(message)}>
+                <Reply className="h-3.5 w-3.5" />
+              </Button>
+              {isAuthor && (
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label="Edit message" onClick={startEditing}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              {(isAuthor || canModerate) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                  aria-label="Delete message"
+                  onClick={() => setConfirmDelete(true)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {message.reply_to_id && (
+          <button
+            type="button"
+            className="mb-1 block w-full truncate border-l-2 border-muted-foreground/40 pl-2 text-left text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => scrollToMessage(message.reply_to_id!)}
+          >
+            {replyTo ? (
+              <>
+                <span className="font-medium">{replyTo.profile.full_name}</span>
+                {': '}
+                {replyTo.deleted_at ? 'Message deleted' : replyTo.content}
+              </>
+            ) : (
+              'Replying to an earlier message'
+            )}
+          </button>
+        )}
+
+        {isDeleted ? (
+          <p className="text-sm italic text-muted-foreground">This message was deleted</p>
+        ) : editing ? (
+          <form onSubmit={saveEdit} className="flex gap-2">
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setEditing(false)}
+              disabled={saving}
+              autoFocus
+              className="h-8"
+            />
+            <Button type="submit" size="sm" disabled={saving || !draft.trim()}>Save</Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(false)}>Cancel</Button>
+          </form>
+        ) : (
+          showText && (
+            <p className="text-sm text-foreground break-words">
+              {message.content}
+            </p>
+          )
+        )}
+
+        {!isDeleted && message.message_type === 'file' && message.file_url && (
+          <MessageAttachment
+            fileUrl={message.file_url}
+            fileName={message.file_name}
+            fileType={message.file_type}
+            fileSize={message.file_size}
+          />
+        )}
+
+        {grouped.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {grouped.map(({ emoji, count, reacted }) => (
+              <button
+                key={emoji}
+                type="button"
+                className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+                  reacted ? 'border-primary/40 bg-primary/10' : 'hover:bg-accent'
+                }`}
+                onClick={() => onToggleReaction(message, emoji)}
+              >
+                <span>{emoji}</span>
+                <span>{count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isAuthor
+                ? "It will be replaced with a note that a message was deleted."
+                : `You're deleting ${message.profile.full_name}'s message as a group moderator.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onDelete(message)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ChatMessage;
@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import MentionTextarea from '@/components/MentionTextarea';
+import { MessageCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { splitMentions } from '@/lib/mentions';
+
+interface Comment {
+  id: string;
+  user_id: string;
+  parent_id: string | null;
+  content: string;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  profiles: { full_name: string } | null;
+}
+
+interface CommentThreadProps {
+  targetType: 'question' | 'answer';
+  targetId: string;
+}
+
+// Deeper replies keep the last indent so narrow screens stay readable
+const MAX_INDENT_DEPTH = 3;
+
+const CommentContent: React.FC<{ content: string }> = ({ content }) => (
+  <span className="whitespace-pre-wrap">
+    {splitMentions(content).map((segment, index) =>
+      segment.type === 'mention' ? (
+        <span key={index} className="font-medium text-primary">@{segment.text}</span>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </span>
+);
+
+interface CommentFormProps {
+  initialValue?: string;
+  submitLabel: string;
+  placeholder: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({ initialValue = '', submitLabel, placeholder, onSubmit, onCancel }) => {
+  const [content, setContent] = useState(initialValue);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async () => {
+    if (!content.trim() || submitting) return;
+    setSubmitting(true);
+    const saved = await onSubmit(content.trim());
+    setSubmitting(false);
+    if (saved) setContent('');
+  };
+
+  return (
+    <div className="space-y-2 mt-2">
+      <MentionTextarea
+        value={content}
+        onChange={setContent}
+        onSubmit={submit}
+        placeholder={placeholder}
+        className="min-h-16 text-sm"
+        autoFocus
+      />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={submit} disabled={submitting || !content.trim()}>
+          {submitting ? 'Saving...' : submitLabel}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const CommentThread: React.FC<CommentThreadProps> = ({ targetType, targetId }) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [composing, setComposing] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const targetColumn = targetType === 'question' ? 'question_id' : 'answer_id';
+
+  useEffect(() => {
+    fetchComments();
+  }, [targetType, targetId]);
+
+  const fetchComments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('comments')
+        .select('id, user_id, parent_id, content, deleted_at, created_at, updated_at')
+        .eq(targetColumn, targetId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Fetch profiles separately to avoid relation issues
+      const userIds = [...new Set((data || []).map(comment => comment.user_id))];
+      const { data: profiles, error: profilesError } = userIds.length
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+        : { data: [], error: null };
+
+      if (profilesError) {
+        console.error('Error fetching profiles:', profilesError);
+      }
+
+      setComments((data || []).map(comment => ({
+        ...comment,
+        profiles: profiles?.find(p => p.user_id === comment.user_id) || null,
+      })));
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    }
+  };
+
+  const addComment = async (content: string, parentId: string | null) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .insert([{
+          user_id: user.id,
+          [targetColumn]: targetId,
+          parent_id: parentId,
+          content,
+        }]);
+
+      if (error) throw error;
+
+      setComposing(false);
+      setReplyingTo(null);
+      fetchComments();
+      return true;
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast.error("Failed to post comment. Please try again.");
+      return false;
+    }
+  };
+
+  const editComment = async (commentId: string, content: string) => {
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .update({ content })
+        .eq('id', commentId);
+
+      if (error) throw error;
+
+      setEditing(null);
+      fetchComments();
+      return true;
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      toast.error("Failed to save comment. Please try again.");
+      return false;
+    }
+  };
+
+  const deleteComment = async (commentId: string) => {
+    try {
+      // Soft delete so replies keep their place in the thread
+      const { error } = await supabase
+        .from('comments')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', commentId);
+
+      if (error) throw error;
+      fetchComments();
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error("Failed to delete comment. Please try again.");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const childrenOf = (parentId: string | null) =>
+    comments.filter(comment => comment.parent_id === parentId);
+
+  const renderComment = (comment: Comment, depth: number): React.ReactNode => {
+    const deleted = !!comment.deleted_at;
+    const edited = !deleted && comment.updated_at !== comment.created_at;
+    const isAuthor = user?.id === comment.user_id;
+
+    return (
+      <div key={comment.id} className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-4 pl-3 border-l' : ''}>
+        <div className="py-2 text-sm">
+          {editing === comment.id ? (
+            <CommentForm
+              initialValue={comment.content}
+              submitLabel="Save"
+              placeholder="Edit your comment"
+              onSubmit={(content) => editComment(comment.id, content)}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <>
+              {deleted ? (
+                <span className="italic text-muted-foreground">[deleted]</span>
+              ) : (
+                <CommentContent content={comment.content} />
+              )}
+              <span className="text-muted-foreground">
+                {' '}&ndash; {comment.profiles?.full_name || 'Unknown'}
+                {' '}{new Date(comment.created_at).toLocaleDateString()}
+                {edited && ' (edited)'}
+              </span>
+              {user && !deleted && (
+                <span className="ml-2 inline-flex gap-2 text-xs">
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() => setReplyingTo(comment.id)}
+                  >
+                    Reply
+                  </button>
+                  {isAuthor && (
+                    <>
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() => setEditing(comment.id)}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={() => setDeleting(comment.id)}
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </span>
+              )}
+            </>
+          )}
+          {replyingTo === comment.id && (
+            <CommentForm
+              submitLabel="Reply"
+              placeholder={`Reply to ${comment.profiles?.full_name || 'this comment'}`}
+              onSubmit={(content) => addComment(content, comment.id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          )}
+        </div>
+        {childrenOf(comment.id).map(child => renderComment(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4 border-t pt-2">
+      {childrenOf(null).map(comment => renderComment(comment, 0))}
+
+      {user && (
+        composing ? (
+          <CommentForm
+            submitLabel="Add Comment"
+            placeholder="Ask for clarification or suggest an improvement. Type @ to mention someone."
+            onSubmit={(content) => addComment(content, null)}
+            onCancel={() => setComposing(false)}
+          />
+        ) : (
+          <Button variant="ghost" size="sm" className="mt-1 text-muted-foreground" onClick={() => setComposing(true)}>
+            <MessageCircle className="h-4 w-4 mr-1" />
+            Add a comment
+          </Button>
+        )
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The comment text will be removed. Replies to it stay in the thread.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && deleteComment(deleting)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -7,7 +7,7 @@ import { X, Upload, FileText, Image as ImageIcon, File } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 
 interface FileUploadProps {
-  onFileUpload: (file: File) => Promise<string>;
+  onFileUpload: (file: File, onProgress: (percent: number) => void) => Promise<string>;
   acceptedTypes?: string[];
   maxSize?: number; // in MB
   multiple?: boolean;
@@ -62,7 +62,6 @@ const FileUpload: React.FC<FileUploadProps> = ({
     for (let i = 0; i < acceptedFiles.length; i++) {
       const file = acceptedFiles[i];
       try {
-        // Simulate progress updates
         const updateProgress = (progress: number) => {
           setUploadingFiles(prev => 
             prev.map((uploadFile, index) => 
@@ -71,17 +70,8 @@ const FileUpload: React.FC<FileUploadProps> = ({
           );
         };
 
-        // Simulate progress
-        updateProgress(25);
-        await new Promise(resolve => setTimeout(resolve, 500));
-        updateProgress(50);
-        await new Promise(resolve => setTimeout(resolve, 500));
-        updateProgress(75);
-
-        const url = await onFileUpload(file);
-        
-        updateProgress(100);
-        
+        const url = await onFileUpload(file, updateProgress);
+
         setUploadingFiles(prev => 
           prev.map((uploadFile, index) => 
             index === i ? { ...uploadFile, url, progress: 100 } : uploadFile
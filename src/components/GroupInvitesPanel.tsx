@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Link2, Send, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { createGroupInvite, GroupInvite, inviteLink, revokeGroupInvite } from '@/lib/groups';
+
+interface GroupInvitesPanelProps {
+  groupId: string;
+  memberIds: string[];
+}
+
+interface InviteWithProfile extends GroupInvite {
+  invitee: { full_name: string } | null;
+}
+
+interface ProfileSuggestion {
+  user_id: string;
+  full_name: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS: Record<string, number | null> = {
+  '1': DAY_MS,
+  '7': 7 * DAY_MS,
+  '30': 30 * DAY_MS,
+  never: null,
+};
+
+const isActive = (invite: GroupInvite) =>
+  !invite.revoked_at
+  && (!invite.expires_at || new Date(invite.expires_at) > new Date())
+  && (invite.max_uses === null || invite.use_count < invite.max_uses);
+
+const GroupInvitesPanel: React.FC<GroupInvitesPanelProps> = ({ groupId, memberIds }) => {
+  const { toast } = useToast();
+  const [invites, setInvites] = useState<InviteWithProfile[]>([]);
+  const [expiry, setExpiry] = useState('7');
+  const [maxUses, setMaxUses] = useState('unlimited');
+  const [creating, setCreating] = useState(false);
+  const [search, setSearch] = useState('');
+  const [suggestions, setSuggestions] = useState<ProfileSuggestion[]>([]);
+
+  useEffect(() => {
+    fetchInvites();
+  }, [groupId]);
+
+  // Look up people to invite once at least two characters are typed
+  useEffect(() => {
+    if (search.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .ilike('full_name', `${search.trim()}%`)
+        .order('full_name')
+        .limit(6);
+
+      if (error) {
+        console.error('Error searching profiles:', error);
+        return;
+      }
+      if (!cancelled) {
+        setSuggestions((data || []).filter(profile => profile.full_name && !memberIds.includes(profile.user_id)));
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [search, memberIds]);
+
+  const fetchInvites = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('group_invites')
+        .select('*')
+        .eq('group_id', groupId)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const active = (data || []).filter(isActive);
+
+      // Fetch profiles separately to avoid relation issues
+      const userIds = active.flatMap(invite => invite.invited_user_id ? [invite.invited_user_id] : []);
+      const { data: profiles } = userIds.length
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+        : { data: [] };
+
+      setInvites(active.map(invite => ({
+        ...invite,
+        invitee: profiles?.find(p => p.user_id === invite.invited_user_id) || null,
+      })));
+    } catch (error) {
+      console.error('Error fetching invites:', error);
+    }
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: (error as { message?: string })?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const copyLink = async (invite: GroupInvite) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(invite.token));
+      toast({ title: "Copied", description: "Invite link copied to clipboard" });
+    } catch (error) {
+      showError(error, "Failed to copy the invite link");
+    }
+  };
+
+  const createLink = async () => {
+    setCreating(true);
+    try {
+      const duration = EXPIRY_OPTIONS[expiry];
+      const invite = await createGroupInvite(groupId, {
+        maxUses: maxUses === 'unlimited' ? undefined : Number(maxUses),
+        expiresAt: duration ? new Date(Date.now() + duration) : undefined,
+      });
+      await copyLink(invite);
+      fetchInvites();
+    } catch (error) {
+      showError(error, "Failed to create invite link");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const inviteUser = async (profile: ProfileSuggestion) => {
+    try {
+      await createGroupInvite(groupId, {
+        invitedUserId: profile.user_id,
+        expiresAt: new Date(Date.now() + 30 * DAY_MS),
+      });
+      toast({ title: "Success", description: `Invitation sent to ${profile.full_name}` });
+      setSearch('');
+      fetchInvites();
+    } catch (error) {
+      showError(error, "Failed to send invitation");
+    }
+  };
+
+  const revoke = async (invite: InviteWithProfile) => {
+    try {
+      await revokeGroupInvite(invite.id);
+      setInvites(current => current.filter(i => i.id !== invite.id));
+    } catch (error) {
+      showError(error, "Failed to revoke invite");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Invite link</Label>
+        <div className="flex gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">Expires in 1 day</SelectItem>
+              <SelectItem value="7">Expires in 7 days</SelectItem>
+              <SelectItem value="30">Expires in 30 days</SelectItem>
+              <SelectItem value="never">Never expires</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={maxUses} onValueChange={setMaxUses}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">1 use</SelectItem>
+              <SelectItem value="5">5 uses</SelectItem>
+              <SelectItem value="10">10 uses</SelectItem>
+              <SelectItem value="25">25 uses</SelectItem>
+              <SelectItem value="unlimited">No limit</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="h-9 gap-1 shrink-0" onClick={createLink} disabled={creating}>
+            <Link2 className="h-4 w-4" />
+            Create
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="invite-search">Invite someone directly</Label>
+        <Input
+          id="invite-search"
+          placeholder="Search by name..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        {suggestions.length > 0 && (
+          <div className="rounded-md border">
+            {suggestions.map((profile) => (
+              <button
+                key={profile.user_id}
+                type="button"
+                className="flex w-full items-center justify-between px-3 py-2 text-sm hover:bg-accent"
+                onClick={() => inviteUser(profile)}
+              >
+                {profile.full_name}
+                <Send className="h-4 w-4 text-muted-foreground" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Active invites</Label>
+        {invites.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No active invites.</p>
+        ) : (
+          <ScrollArea className="h-48 pr-3">
+            <div className="space-y-3">
+              {invites.map((invite) => (
+                <div key={invite.id} className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {invite.invited_user_id
+                        ? invite.invitee?.full_name || 'Unknown User'
+                        : `Link ...${invite.token.slice(-6)}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {invite.max_uses === null
+                        ? `${invite.use_count} uses`
+                        : `${invite.use_count}/${invite.max_uses} uses`}
+                      {' · '}
+                      {invite.expires_at
+                        ? `expires ${new Date(invite.expires_at).toLocaleDateString()}`
+                        : 'never expires'}
+                    </p>
+                  </div>
+                  {invite.invited_user_id ? (
+                    <Badge variant="secondary" className="text-xs">Direct</Badge>
+                  ) : (
+                    <Button variant="ghost" size="sm" title="Copy link" onClick={() => copyLink(invite)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Revoke"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => revoke(invite)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GroupInvitesPanel;
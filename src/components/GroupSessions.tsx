@@ -0,0 +1,432 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CalendarPlus, CalendarSync, Clock, ExternalLink, MapPin, Pencil, Trash2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  countRsvps,
+  createSession,
+  deleteSession,
+  fetchUpcomingSessions,
+  formatSessionTime,
+  getCalendarFeedUrl,
+  RSVP_LABELS,
+  RsvpStatus,
+  setRsvp,
+  UpcomingSession,
+  updateSession,
+  webcalLink,
+} from '@/lib/sessions';
+
+interface GroupSessionsProps {
+  groupId: string;
+  currentUserId?: string;
+  // Members can RSVP; admins and moderators can also schedule
+  isMember: boolean;
+  canManage: boolean;
+}
+
+interface SessionForm {
+  title: string;
+  agenda: string;
+  location: string;
+  meetingUrl: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+const emptyForm = (): SessionForm => {
+  const start = new Date(Math.ceil(Date.now() / HOUR_MS) * HOUR_MS + HOUR_MS);
+  return {
+    title: '',
+    agenda: '',
+    location: '',
+    meetingUrl: '',
+    startsAt: toLocalInput(start),
+    endsAt: toLocalInput(new Date(start.getTime() + HOUR_MS)),
+  };
+};
+
+const formFromSession = (session: UpcomingSession): SessionForm => ({
+  title: session.title,
+  agenda: session.agenda ?? '',
+  location: session.location ?? '',
+  meetingUrl: session.meeting_url ?? '',
+  startsAt: toLocalInput(new Date(session.starts_at)),
+  endsAt: toLocalInput(new Date(session.ends_at)),
+});
+
+const RSVP_OPTIONS: RsvpStatus[] = ['going', 'maybe', 'not_going'];
+
+const GroupSessions: React.FC<GroupSessionsProps> = ({ groupId, currentUserId, isMember, canManage }) => {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<UpcomingSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<UpcomingSession | null>(null);
+  const [form, setForm] = useState<SessionForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<UpcomingSession | null>(null);
+
+  useEffect(() => {
+    if (isMember) {
+      fetchSessions();
+    }
+  }, [groupId, isMember]);
+
+  const fetchSessions = async () => {
+    try {
+      setSessions(await fetchUpcomingSessions(groupId));
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: (error as { message?: string })?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const openEdit = (session: UpcomingSession) => {
+    setEditing(session);
+    setForm(formFromSession(session));
+    setDialogOpen(true);
+  };
+
+  const saveSession = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUserId) return;
+
+    const input = {
+      title: form.title,
+      agenda: form.agenda,
+      location: form.location,
+      meetingUrl: form.meetingUrl,
+      startsAt: new Date(form.startsAt),
+      endsAt: new Date(form.endsAt),
+    };
+
+    if (input.endsAt <= input.startsAt) {
+      toast({ title: "Error", description: "The session must end after it starts", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await updateSession(editing.id, input);
+      } else {
+        await createSession(groupId, currentUserId, input);
+      }
+      toast({ title: "Success", description: editing ? "Session updated" : "Session scheduled" });
+      setDialogOpen(false);
+      fetchSessions();
+    } catch (error) {
+      showError(error, "Failed to save the session");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteSession(deleting.id);
+      setSessions(current => current.filter(session => session.id !== deleting.id));
+    } catch (error) {
+      showError(error, "Failed to cancel the session");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const respond = async (session: UpcomingSession, status: RsvpStatus) => {
+    if (!currentUserId) return;
+
+    // Optimistic, since RSVPs are quick toggles
+    const previous = sessions;
+    setSessions(current => current.map(s => s.id !== session.id ? s : {
+      ...s,
+      rsvps: [...s.rsvps.filter(r => r.user_id !== currentUserId), { user_id: currentUserId, status }],
+    }));
+
+    try {
+      await setRsvp(session.id, status);
+    } catch (error) {
+      setSessions(previous);
+      showError(error, "Failed to save your RSVP");
+    }
+  };
+
+  const subscribe = async (scope: 'group' | 'all') => {
+    try {
+      window.location.href = webcalLink(await getCalendarFeedUrl(scope === 'group' ? groupId : undefined));
+    } catch (error) {
+      showError(error, "Failed to open the calendar feed");
+    }
+  };
+
+  const copyFeed = async () => {
+    try {
+      await navigator.clipboard.writeText(await getCalendarFeedUrl(groupId));
+      toast({ title: "Copied", description: "Calendar feed link copied to clipboard" });
+    } catch (error) {
+      showError(error, "Failed to copy the calendar feed link");
+    }
+  };
+
+  const resetFeed = async () => {
+    try {
+      await getCalendarFeedUrl(undefined, true);
+      toast({ title: "Feed link reset", description: "Calendars using your old feed links will stop updating" });
+    } catch (error) {
+      showError(error, "Failed to reset the calendar feed link");
+    }
+  };
+
+  if (!isMember) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center justify-between">
+          <span>Upcoming Sessions</span>
+          <div className="flex items-center">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" aria-label="Calendar feeds">
+                  <CalendarSync className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => subscribe('group')}>Subscribe to this group</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => subscribe('all')}>Subscribe to all my groups</DropdownMenuItem>
+                <DropdownMenuItem onClick={copyFeed}>Copy feed link</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={resetFeed}>Reset feed links</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {canManage && (
+              <Button variant="ghost" size="sm" onClick={openCreate} aria-label="Schedule session">
+                <CalendarPlus className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="h-12 bg-muted rounded animate-pulse" />
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">No sessions planned.</p>
+        ) : (
+          sessions.map((session) => {
+            const counts = countRsvps(session.rsvps);
+            const myStatus = session.rsvps.find(r => r.user_id === currentUserId)?.status;
+
+            return (
+              <div key={session.id} className="space-y-2 border-b pb-4 last:border-0 last:pb-0">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium break-words">{session.title}</p>
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="h-3 w-3 shrink-0" />
+                      {formatSessionTime(session)}
+                    </p>
+                    {session.location && (
+                      <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <MapPin className="h-3 w-3 shrink-0" />
+                        <span className="truncate">{session.location}</span>
+                      </p>
+                    )}
+                    {session.meeting_url && (
+                      <a
+                        href={session.meeting_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-xs text-primary hover:underline"
+                      >
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                        Join online
+                      </a>
+                    )}
+                  </div>
+                  {canManage && (
+                    <div className="flex">
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label="Edit session" onClick={() => openEdit(session)}>
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                        aria-label="Cancel session"
+                        onClick={() => setDeleting(session)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {session.agenda && (
+                  <p className="text-xs text-muted-foreground whitespace-pre-line line-clamp-3">{session.agenda}</p>
+                )}
+
+                <div className="grid grid-cols-3 gap-1">
+                  {RSVP_OPTIONS.map((status) => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant={myStatus === status ? 'default' : 'outline'}
+                      className="h-7 px-1 text-xs"
+                      onClick={() => respond(session, status)}
+                    >
+                      {RSVP_LABELS[status]}
+                      {status !== 'not_going' && counts[status] > 0 && ` · ${counts[status]}`}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Session' : 'Schedule Session'}</DialogTitle>
+            <DialogDescription>Members are reminded an hour before it starts.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={saveSession} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="session-title">Title</Label>
+              <Input
+                id="session-title"
+                value={form.title}
+                maxLength={200}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="session-starts">Starts</Label>
+                <Input
+                  id="session-starts"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="session-ends">Ends</Label>
+                <Input
+                  id="session-ends"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  min={form.startsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-location">Location</Label>
+              <Input
+                id="session-location"
+                placeholder="Library, room 204"
+                value={form.location}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-link">Meeting link</Label>
+              <Input
+                id="session-link"
+                type="url"
+                placeholder="https://..."
+                value={form.meetingUrl}
+                onChange={(e) => setForm({ ...form, meetingUrl: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-agenda">Agenda</Label>
+              <Textarea
+                id="session-agenda"
+                value={form.agenda}
+                onChange={(e) => setForm({ ...form, agenda: e.target.value })}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saving || !form.title.trim()}>
+                {saving ? 'Saving...' : editing ? 'Save Changes' : 'Schedule'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel {deleting?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The session and its RSVPs will be removed for everyone in the group.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Session</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Cancel Session</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default GroupSessions;
@@ -0,0 +1,457 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Check, Crown, UserMinus, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { respondToJoinRequest } from '@/lib/groups';
+import GroupInvitesPanel from '@/components/GroupInvitesPanel';
+
+export type GroupRole = 'admin' | 'moderator' | 'member';
+
+export interface SettingsGroup {
+  id: string;
+  name: string;
+  description: string;
+  privacy: string;
+  max_members: number;
+  creator_id: string;
+}
+
+export interface SettingsMember {
+  id: string;
+  user_id: string;
+  role: string;
+  profile: { full_name: string };
+}
+
+interface GroupSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: SettingsGroup;
+  members: SettingsMember[];
+  currentRole: GroupRole | null;
+  onUpdated: () => void;
+}
+
+interface JoinRequest {
+  id: string;
+  user_id: string;
+  message: string | null;
+  created_at: string;
+  profile: { full_name: string } | null;
+}
+
+type PendingAction = { type: 'remove' | 'transfer'; member: SettingsMember };
+
+const GroupSettingsDialog: React.FC<GroupSettingsDialogProps> = ({
+  open,
+  onOpenChange,
+  group,
+  members,
+  currentRole,
+  onUpdated
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [details, setDetails] = useState({
+    name: group.name,
+    description: group.description || '',
+    privacy: group.privacy,
+    max_members: group.max_members,
+  });
+  const [saving, setSaving] = useState(false);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+
+  const isAdmin = currentRole === 'admin';
+  const isManager = isAdmin || currentRole === 'moderator';
+  const isOwner = group.creator_id === user?.id;
+
+  useEffect(() => {
+    if (open) {
+      setDetails({
+        name: group.name,
+        description: group.description || '',
+        privacy: group.privacy,
+        max_members: group.max_members,
+      });
+    }
+  }, [open, group]);
+
+  useEffect(() => {
+    if (open && isManager) {
+      fetchRequests();
+    }
+  }, [open, isManager, group.id]);
+
+  const fetchRequests = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('group_join_requests')
+        .select('id, user_id, message, created_at')
+        .eq('group_id', group.id)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Fetch profiles separately to avoid relation issues
+      const userIds = (data || []).map(request => request.user_id);
+      const { data: profiles } = userIds.length
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+        : { data: [] };
+
+      setRequests((data || []).map(request => ({
+        ...request,
+        profile: profiles?.find(p => p.user_id === request.user_id) || null,
+      })));
+    } catch (error) {
+      console.error('Error fetching join requests:', error);
+    }
+  };
+
+  const respond = async (request: JoinRequest, approve: boolean) => {
+    try {
+      await respondToJoinRequest(request.id, approve);
+      toast({
+        title: "Success",
+        description: `${request.profile?.full_name || 'The request'} was ${approve ? 'approved' : 'declined'}`,
+      });
+      fetchRequests();
+      if (approve) onUpdated();
+    } catch (error) {
+      showError(error, "Failed to respond to the request");
+    }
+  };
+
+  // Errors come from RLS or the owner-protection trigger, so show their text
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: (error as { message?: string })?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (details.max_members < members.length) {
+      toast({
+        title: "Error",
+        description: `The group already has ${members.length} members`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('study_groups')
+        .update({
+          name: details.name.trim(),
+          description: details.description.trim(),
+          privacy: details.privacy as 'public' | 'private' | 'invite_only',
+          max_members: details.max_members,
+        })
+        .eq('id', group.id);
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Group settings saved" });
+      onUpdated();
+    } catch (error) {
+      showError(error, "Failed to save group settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeRole = async (member: SettingsMember, role: GroupRole) => {
+    try {
+      const { error } = await supabase
+        .from('group_members')
+        .update({ role })
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: `${member.profile.full_name} is now a ${role}` });
+      onUpdated();
+    } catch (error) {
+      showError(error, "Failed to change role");
+    }
+  };
+
+  const confirmPending = async () => {
+    if (!pending) return;
+    const { type, member } = pending;
+
+    try {
+      if (type === 'remove') {
+        const { error } = await supabase
+          .from('group_members')
+          .delete()
+          .eq('id', member.id);
+
+        if (error) throw error;
+        toast({ title: "Success", description: `${member.profile.full_name} was removed from the group` });
+      } else {
+        const { error } = await supabase.rpc('transfer_group_ownership', {
+          p_group_id: group.id,
+          p_new_owner_id: member.user_id,
+        });
+
+        if (error) throw error;
+        toast({ title: "Success", description: `${member.profile.full_name} now owns the group` });
+      }
+
+      onUpdated();
+    } catch (error) {
+      showError(error, type === 'remove' ? "Failed to remove member" : "Failed to transfer ownership");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const canRemove = (member: SettingsMember) => {
+    if (member.user_id === user?.id || member.user_id === group.creator_id) return false;
+    return isAdmin || (currentRole === 'moderator' && member.role === 'member');
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Group Settings</DialogTitle>
+            <DialogDescription>Manage {group.name} and its members.</DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue={isAdmin ? 'details' : 'members'}>
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="details" disabled={!isAdmin}>Details</TabsTrigger>
+              <TabsTrigger value="members">Members</TabsTrigger>
+              <TabsTrigger value="requests" disabled={!isManager}>
+                Requests
+                {requests.length > 0 && (
+                  <Badge variant="destructive" className="ml-2 h-5 min-w-5 justify-center px-1 text-xs">
+                    {requests.length}
+                  </Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="invites" disabled={!isManager}>Invites</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="details">
+              <form onSubmit={saveDetails} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="group-name">Name</Label>
+                  <Input
+                    id="group-name"
+                    value={details.name}
+                    onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="group-description">Description</Label>
+                  <Textarea
+                    id="group-description"
+                    value={details.description}
+                    onChange={(e) => setDetails({ ...details, description: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="group-privacy">Privacy</Label>
+                    <Select
+                      value={details.privacy}
+                      onValueChange={(privacy) => setDetails({ ...details, privacy })}
+                    >
+                      <SelectTrigger id="group-privacy">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="public">Public</SelectItem>
+                        <SelectItem value="private">Private</SelectItem>
+                        <SelectItem value="invite_only">Invite only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="group-max-members">Max members</Label>
+                    <Input
+                      id="group-max-members"
+                      type="number"
+                      min={2}
+                      max={500}
+                      value={details.max_members}
+                      onChange={(e) => setDetails({ ...details, max_members: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <Button type="submit" disabled={saving || !details.name.trim()}>
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="members">
+              <ScrollArea className="h-80 pr-3">
+                <div className="space-y-3">
+                  {members.map((member) => {
+                    const memberIsOwner = member.user_id === group.creator_id;
+                    const editable = isAdmin && !memberIsOwner && member.user_id !== user?.id;
+
+                    return (
+                      <div key={member.id} className="flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">{member.profile.full_name}</p>
+                          {memberIsOwner && (
+                            <Badge variant="secondary" className="text-xs gap-1">
+                              <Crown className="h-3 w-3" />
+                              Owner
+                            </Badge>
+                          )}
+                        </div>
+
+                        {editable ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => changeRole(member, role as GroupRole)}
+                          >
+                            <SelectTrigger className="w-32 h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="admin">Admin</SelectItem>
+                              <SelectItem value="moderator">Moderator</SelectItem>
+                              <SelectItem value="member">Member</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-xs text-muted-foreground capitalize w-32 text-right">{member.role}</span>
+                        )}
+
+                        {isOwner && !memberIsOwner && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Make owner"
+                            onClick={() => setPending({ type: 'transfer', member })}
+                          >
+                            <Crown className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canRemove(member) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Remove from group"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setPending({ type: 'remove', member })}
+                          >
+                            <UserMinus className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="requests">
+              {requests.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No pending requests.</p>
+              ) : (
+                <ScrollArea className="h-80 pr-3">
+                  <div className="space-y-3">
+                    {requests.map((request) => (
+                      <div key={request.id} className="flex items-start gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">{request.profile?.full_name || 'Unknown User'}</p>
+                          {request.message && (
+                            <p className="text-xs text-muted-foreground">{request.message}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(request.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <Button size="sm" variant="ghost" title="Approve" onClick={() => respond(request, true)}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Decline"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => respond(request, false)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+            </TabsContent>
+
+            <TabsContent value="invites">
+              {isManager && (
+                <GroupInvitesPanel groupId={group.id} memberIds={members.map(member => member.user_id)} />
+              )}
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pending} onOpenChange={(isOpen) => !isOpen && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.type === 'transfer'
+                ? `Make ${pending.member.profile.full_name} the owner?`
+                : `Remove ${pending?.member.profile.full_name}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.type === 'transfer'
+                ? "They will become an admin and own the group. You will stay on as an admin."
+                : "They will lose access to the group chat and can only come back by joining again."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPending}>
+              {pending?.type === 'transfer' ? 'Transfer Ownership' : 'Remove'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default GroupSettingsDialog;
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Textarea } from '@/components/ui/textarea';
+import { findMentionQuery, formatMention } from '@/lib/mentions';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  onSubmit?: () => void;
+}
+
+interface MentionSuggestion {
+  user_id: string;
+  full_name: string;
+}
+
+const MentionTextarea: React.FC<MentionTextareaProps> = ({
+  value,
+  onChange,
+  placeholder,
+  className,
+  disabled = false,
+  autoFocus = false,
+  onSubmit
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // Look up people by name once "@" plus at least one character is typed
+  useEffect(() => {
+    if (!mention?.query) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .ilike('full_name', `${mention.query}%`)
+        .order('full_name')
+        .limit(6);
+
+      if (error) {
+        console.error('Error fetching mention suggestions:', error);
+        return;
+      }
+      if (!cancelled) {
+        setSuggestions((data || []).filter(profile => profile.full_name));
+        setHighlighted(0);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [mention?.query]);
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret));
+  };
+
+  const insertMention = (profile: MentionSuggestion) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const caret = textarea.selectionStart;
+    const inserted = `${formatMention(profile.full_name, profile.user_id)} `;
+    const next = value.slice(0, mention.start) + inserted + value.slice(caret);
+    onChange(next);
+    setMention(null);
+    setSuggestions([]);
+
+    const position = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted(prev => (prev + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted(prev => (prev - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setSuggestions([]);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && onSubmit) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onBlur={() => setSuggestions([])}
+        placeholder={placeholder}
+        className={className}
+        disabled={disabled}
+        autoFocus={autoFocus}
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((profile, index) => (
+            <li key={profile.user_id}>
+              <button
+                type="button"
+                // Keep focus in the textarea so onBlur doesn't close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(profile)}
+                className={`w-full rounded-sm px-2 py-1.5 text-left text-sm ${
+                  index === highlighted ? 'bg-accent text-accent-foreground' : ''
+                }`}
+              >
+                {profile.full_name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
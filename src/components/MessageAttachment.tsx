@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Download, FileText, File, ImageOff } from 'lucide-react';
+import { CHAT_ATTACHMENTS_BUCKET, getFileUrl } from '@/lib/storage';
+
+interface MessageAttachmentProps {
+  fileUrl: string;
+  fileName: string | null;
+  fileType?: string | null;
+  fileSize?: number | null;
+}
+
+// Signed URLs are short-lived so a link copied out of the chat stops working
+// soon after; storage policies only sign them for current group members
+const SIGNED_URL_TTL = 300;
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp'];
+
+const isImage = (fileName: string | null, fileType?: string | null) => {
+  if (fileType) return fileType.startsWith('image/');
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  return !!extension && IMAGE_EXTENSIONS.includes(extension);
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const MessageAttachment: React.FC<MessageAttachmentProps> = ({ fileUrl, fileName, fileType, fileSize }) => {
+  const image = isImage(fileName, fileType);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewFailed, setPreviewFailed] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    if (!image) return;
+
+    let cancelled = false;
+    getFileUrl(CHAT_ATTACHMENTS_BUCKET, fileUrl, { expiresIn: SIGNED_URL_TTL })
+      .then(url => {
+        if (!cancelled) setPreviewUrl(url);
+      })
+      .catch(error => {
+        console.error('Error loading attachment preview:', error);
+        if (!cancelled) setPreviewFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileUrl, image]);
+
+  const openAttachment = async (download: boolean) => {
+    setDownloading(true);
+    try {
+      const url = await getFileUrl(CHAT_ATTACHMENTS_BUCKET, fileUrl, {
+        expiresIn: SIGNED_URL_TTL,
+        download: download ? fileName || true : undefined,
+      });
+      window.open(url, '_blank');
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (image && !previewFailed) {
+    return previewUrl ? (
+      <button type="button" onClick={() => openAttachment(false)} className="block mt-1">
+        <img
+          src={previewUrl}
+          alt={fileName || 'Image attachment'}
+          className="max-h-60 max-w-xs rounded-md border object-cover"
+          onError={() => setPreviewFailed(true)}
+        />
+      </button>
+    ) : (
+      <Skeleton className="mt-1 h-40 w-60 rounded-md" />
+    );
+  }
+
+  return (
+    <Card className="mt-1 max-w-sm">
+      <CardContent className="p-3 flex items-center gap-3">
+        {image ? (
+          <ImageOff className="h-6 w-6 text-muted-foreground" />
+        ) : fileName?.toLowerCase().match(/\.(pdf|docx?|txt|pptx?)$/) ? (
+          <FileText className="h-6 w-6 text-muted-foreground" />
+        ) : (
+          <File className="h-6 w-6 text-muted-foreground" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{fileName || 'Attachment'}</p>
+          {fileSize != null && (
+            <p className="text-xs text-muted-foreground">{formatFileSize(fileSize)}</p>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => openAttachment(true)}
+          disabled={downloading}
+          aria-label={`Download ${fileName || 'attachment'}`}
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MessageAttachment;
@@ -14,6 +14,8 @@ import { BookOpen, MessageCircle, Users, Trophy, User, LogOut, Settings } from '
 import { useAuth } from '@/hooks/useAuth';
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import SearchCommand from '@/components/SearchCommand';
+import NotificationBell from '@/components/NotificationBell';
 
 interface Profile {
   full_name: string;
@@ -102,6 +104,8 @@ const Navigation = () => {
 
         {/* User Menu */}
         <div className="flex items-center space-x-4">
+          {user && <SearchCommand />}
+          {user && <NotificationBell />}
           {user ? (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
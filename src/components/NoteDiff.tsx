@@ -0,0 +1,78 @@
+import React from 'react';
+import { DiffLine, diffLines } from '@/lib/diff';
+
+interface NoteDiffProps {
+  oldText: string;
+  newText: string;
+  // Unchanged lines kept around each change; longer unchanged runs collapse
+  context?: number;
+}
+
+type DiffRow = DiffLine | { type: 'skipped'; count: number };
+
+const collapse = (lines: DiffLine[], context: number): DiffRow[] => {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) {
+      keep[i] = true;
+    }
+  });
+
+  const rows: DiffRow[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      rows.push(line);
+      return;
+    }
+    const last = rows[rows.length - 1];
+    if (last?.type === 'skipped') {
+      last.count++;
+    } else {
+      rows.push({ type: 'skipped', count: 1 });
+    }
+  });
+  return rows;
+};
+
+const ROW_STYLES: Record<DiffLine['type'], string> = {
+  equal: '',
+  added: 'bg-success/10 text-success',
+  removed: 'bg-destructive/10 text-destructive line-through decoration-destructive/40',
+};
+
+const ROW_MARKERS: Record<DiffLine['type'], string> = {
+  equal: ' ',
+  added: '+',
+  removed: '-',
+};
+
+const NoteDiff: React.FC<NoteDiffProps> = ({ oldText, newText, context = 3 }) => {
+  const lines = diffLines(oldText, newText);
+
+  if (!lines.some(line => line.type !== 'equal')) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No changes to the text.</p>;
+  }
+
+  return (
+    <div className="rounded-md border font-mono text-xs overflow-x-auto">
+      {collapse(lines, context).map((row, index) =>
+        row.type === 'skipped' ? (
+          <div key={index} className="bg-muted px-3 py-1 text-muted-foreground">
+            {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+          </div>
+        ) : (
+          <div key={index} className={`flex whitespace-pre-wrap break-words ${ROW_STYLES[row.type]}`}>
+            <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground">
+              {row.newLine ?? row.oldLine}
+            </span>
+            <span className="w-4 shrink-0 select-none">{ROW_MARKERS[row.type]}</span>
+            <span className="flex-1 min-w-0">{row.text || ' '}</span>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default NoteDiff;
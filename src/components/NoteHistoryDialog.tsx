@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { RotateCcw } from 'lucide-react';
+import NoteDiff from '@/components/NoteDiff';
+import { GroupNote, NoteRevision, fetchNoteRevisions } from '@/lib/notes';
+
+interface NoteHistoryDialogProps {
+  note: GroupNote;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (revision: NoteRevision) => Promise<void>;
+}
+
+type CompareTo = 'previous' | 'current';
+
+const NoteHistoryDialog: React.FC<NoteHistoryDialogProps> = ({ note, open, onOpenChange, onRestore }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTo>('previous');
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchRevisions();
+    }
+  }, [open, note.id, note.current_revision]);
+
+  const fetchRevisions = async () => {
+    try {
+      const data = await fetchNoteRevisions(note.id);
+      setRevisions(data);
+      setSelected(data[0]?.revision ?? null);
+    } catch (error) {
+      console.error('Error fetching note history:', error);
+    }
+  };
+
+  const index = revisions.findIndex(revision => revision.revision === selected);
+  const revision = revisions[index];
+  const previous = revisions[index + 1];
+  const isCurrent = revision?.revision === note.current_revision;
+
+  // "Compare with current" shows what restoring this revision would change
+  const base = compareTo === 'current' && !isCurrent ? note : previous;
+
+  const restore = async () => {
+    if (!revision) return;
+    setRestoring(true);
+    try {
+      await onRestore(revision);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>History of {note.title}</DialogTitle>
+          <DialogDescription>Every save is kept. Restoring adds a new revision on top.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <ScrollArea className="h-[28rem] md:border-r md:pr-3">
+            <div className="space-y-1">
+              {revisions.map((item) => (
+                <button
+                  key={item.id}
+                  type="button"
+                  className={`w-full rounded-md px-3 py-2 text-left text-sm ${
+                    item.revision === selected ? 'bg-accent' : 'hover:bg-accent/50'
+                  }`}
+                  onClick={() => setSelected(item.revision)}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Revision {item.revision}</span>
+                    {item.revision === note.current_revision && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {item.author?.full_name || 'Unknown User'} · {new Date(item.created_at).toLocaleString()}
+                  </p>
+                  {item.restored_from && (
+                    <p className="text-xs text-muted-foreground">Restored revision {item.restored_from}</p>
+                  )}
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="md:col-span-2 space-y-3 min-w-0">
+            {revision && (
+              <>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant={compareTo === 'previous' ? 'default' : 'outline'}
+                    onClick={() => setCompareTo('previous')}
+                  >
+                    Changes in this revision
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={compareTo === 'current' ? 'default' : 'outline'}
+                    onClick={() => setCompareTo('current')}
+                    disabled={isCurrent}
+                  >
+                    Compare with current
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="ml-auto gap-1"
+                    onClick={restore}
+                    disabled={isCurrent || restoring}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    {restoring ? 'Restoring...' : 'Restore'}
+                  </Button>
+                </div>
+                {base && base.title !== revision.title && (
+                  <p className="text-xs text-muted-foreground">
+                    Title changed from "{base.title}" to "{revision.title}"
+                  </p>
+                )}
+                <ScrollArea className="h-[24rem]">
+                  <NoteDiff oldText={base?.content ?? ''} newText={revision.content} />
+                </ScrollArea>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NoteHistoryDialog;
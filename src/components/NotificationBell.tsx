@@ -0,0 +1,99 @@
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell } from 'lucide-react';
+import {
+  AppNotification,
+  useMarkNotificationsRead,
+  useNotificationSubscription,
+  useRecentNotifications,
+  useUnreadNotificationCount,
+} from '@/hooks/useNotifications';
+import { getNotificationLink } from '@/lib/notifications';
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  const { data: notifications = [] } = useRecentNotifications();
+  const markRead = useMarkNotificationsRead();
+
+  useNotificationSubscription();
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.is_read) {
+      markRead([notification.id]);
+    }
+    const link = getNotificationLink(notification.type, notification.related_id);
+    if (link) navigate(link);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge
+              variant="destructive"
+              className="absolute -top-1 -right-1 h-5 min-w-5 justify-center px-1 text-xs"
+            >
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="text-xs font-normal text-primary hover:underline"
+              onClick={() => markRead()}
+            >
+              Mark all as read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications yet.</p>
+        ) : (
+          notifications.map(notification => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex items-start gap-2 cursor-pointer"
+              onClick={() => openNotification(notification)}
+            >
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm truncate ${notification.is_read ? '' : 'font-medium'}`}>
+                  {notification.title}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{notification.message}</p>
+              </div>
+              {!notification.is_read && (
+                <div className="h-2 w-2 bg-primary rounded-full mt-1.5 shrink-0" />
+              )}
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/notifications" className="justify-center text-sm">
+            View all notifications
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
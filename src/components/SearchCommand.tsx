@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { FileText, MessageCircle, MessageSquare, Search, Users } from 'lucide-react';
+import SearchSnippet from '@/components/SearchSnippet';
+import {
+  getSearchResultLink,
+  searchContent,
+  SEARCH_RESULT_LABELS,
+  SearchResult,
+  SearchResultType,
+} from '@/lib/search';
+
+const RESULT_ICONS: Record<SearchResultType, React.ElementType> = {
+  question: MessageCircle,
+  answer: MessageSquare,
+  resource: FileText,
+  group: Users,
+};
+
+// Global search palette, opened from the navigation bar or with Ctrl/Cmd+K
+const SearchCommand: React.FC = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const term = query.trim();
+    if (!term) {
+      setResults([]);
+      return;
+    }
+
+    // Debounce so typing doesn't fire a request per keystroke
+    let cancelled = false;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const data = await searchContent(term, { limit: 12 });
+        if (!cancelled) setResults(data);
+      } catch (error) {
+        console.error('Error searching:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const go = (path: string) => {
+    setOpen(false);
+    setQuery('');
+    navigate(path);
+  };
+
+  const grouped = (Object.keys(SEARCH_RESULT_LABELS) as SearchResultType[])
+    .map(type => ({ type, items: results.filter(result => result.result_type === type) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-muted-foreground gap-2"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden lg:inline">Search...</span>
+        <kbd className="hidden lg:inline pointer-events-none rounded border bg-muted px-1.5 text-[10px] font-medium">
+          Ctrl K
+        </kbd>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput
+          placeholder="Search questions, answers, resources and groups..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          {query.trim() && !loading && (
+            <CommandEmpty>No results found.</CommandEmpty>
+          )}
+
+          {grouped.map(({ type, items }) => {
+            const Icon = RESULT_ICONS[type];
+            return (
+              <CommandGroup key={type} heading={SEARCH_RESULT_LABELS[type]}>
+                {items.map(result => (
+                  <CommandItem
+                    key={`${result.result_type}-${result.id}`}
+                    value={`${result.result_type}-${result.id}`}
+                    onSelect={() => go(getSearchResultLink(result))}
+                    className="items-start gap-2"
+                  >
+                    <Icon className="mt-0.5 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{result.title}</p>
+                      <SearchSnippet snippet={result.snippet} className="text-xs line-clamp-2" />
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+
+          {query.trim() && (
+            <>
+              <CommandSeparator />
+              <CommandGroup>
+                <CommandItem
+                  value="see-all-results"
+                  onSelect={() => go(`/search?q=${encodeURIComponent(query.trim())}`)}
+                >
+                  <Search />
+                  See all results for "{query.trim()}"
+                </CommandItem>
+              </CommandGroup>
+            </>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default SearchCommand;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { splitHighlights } from '@/lib/search';
+
+interface SearchSnippetProps {
+  snippet: string;
+  className?: string;
+}
+
+const SearchSnippet: React.FC<SearchSnippetProps> = ({ snippet, className }) => (
+  <p className={cn("text-sm text-muted-foreground", className)}>
+    {splitHighlights(snippet).map((part, index) =>
+      part.highlighted ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </p>
+);
+
+export default SearchSnippet;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+import { MAX_TAGS, mergeTags, normalizeTag } from '@/lib/tags';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  id?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+interface TagSuggestion {
+  name: string;
+  usage_count: number;
+}
+
+const TagInput: React.FC<TagInputProps> = ({
+  value,
+  onChange,
+  id,
+  placeholder = 'Add tags, e.g. algebra',
+  disabled = false
+}) => {
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const [focused, setFocused] = useState(false);
+
+  // Autocomplete existing tags by prefix, most used first
+  useEffect(() => {
+    const prefix = normalizeTag(input);
+    if (!prefix) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('name, usage_count')
+        .like('name', `${prefix}%`)
+        .order('usage_count', { ascending: false })
+        .limit(8);
+
+      if (error) {
+        console.error('Error fetching tag suggestions:', error);
+        return;
+      }
+      if (!cancelled) {
+        setSuggestions((data || []).filter(tag => !value.includes(tag.name)));
+        setHighlighted(0);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [input, value]);
+
+  const addTag = (name: string) => {
+    onChange(mergeTags(value, [name]));
+    setInput('');
+    setSuggestions([]);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',' || e.key === 'Tab') && input.trim()) {
+      e.preventDefault();
+      addTag(suggestions[highlighted]?.name ?? input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  const full = value.length >= MAX_TAGS;
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 rounded-md border border-input px-3 py-2">
+        {value.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            {tag}
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="rounded-full hover:text-destructive"
+                aria-label={`Remove ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          placeholder={full ? `Up to ${MAX_TAGS} tags` : placeholder}
+          disabled={disabled || full}
+          className="h-7 flex-1 min-w-32 border-0 p-0 shadow-none focus-visible:ring-0"
+        />
+      </div>
+
+      {focused && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((tag, index) => (
+            <li key={tag.name}>
+              <button
+                type="button"
+                // Keep focus in the input so onBlur doesn't close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag.name)}
+                className={`flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm ${
+                  index === highlighted ? 'bg-accent text-accent-foreground' : ''
+                }`}
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-muted-foreground">{tag.usage_count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export type VoteValue = -1 | 0 | 1;
+
+interface VoteState {
+  upvotes: number;
+  downvotes: number;
+  userVote: VoteValue;
+}
+
+interface VoteButtonsProps {
+  targetType: 'question' | 'answer';
+  targetId: string;
+  upvotes: number;
+  downvotes: number;
+  userVote: VoteValue;
+  disabled?: boolean;
+  onVoted?: (state: VoteState) => void;
+}
+
+const VoteButtons: React.FC<VoteButtonsProps> = ({
+  targetType,
+  targetId,
+  upvotes,
+  downvotes,
+  userVote,
+  disabled = false,
+  onVoted
+}) => {
+  const [state, setState] = useState<VoteState>({ upvotes, downvotes, userVote });
+  const [voting, setVoting] = useState(false);
+
+  useEffect(() => {
+    setState({ upvotes, downvotes, userVote });
+  }, [upvotes, downvotes, userVote]);
+
+  const vote = async (value: 1 | -1) => {
+    if (voting) return;
+
+    // Clicking the active direction retracts the vote, the other one flips it
+    const nextValue: VoteValue = state.userVote === value ? 0 : value;
+
+    setVoting(true);
+    try {
+      const { data, error } = nextValue === 0
+        ? await supabase
+            .rpc('retract_vote', { p_target_type: targetType, p_target_id: targetId })
+            .single()
+        : await supabase
+            .rpc('cast_vote', { p_target_type: targetType, p_target_id: targetId, p_value: nextValue })
+            .single();
+
+      if (error) throw error;
+
+      const nextState: VoteState = {
+        upvotes: data.upvotes,
+        downvotes: data.downvotes,
+        userVote: data.user_vote as VoteValue
+      };
+      setState(nextState);
+      onVoted?.(nextState);
+    } catch (error) {
+      console.error('Error voting:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to record your vote.");
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant={state.userVote === 1 ? 'secondary' : 'ghost'}
+        size="sm"
+        onClick={() => vote(1)}
+        disabled={disabled || voting}
+        aria-pressed={state.userVote === 1}
+        aria-label="Upvote"
+      >
+        <ThumbsUp className={`h-4 w-4 mr-1 ${state.userVote === 1 ? 'fill-current text-primary' : ''}`} />
+        {state.upvotes}
+      </Button>
+      <Button
+        variant={state.userVote === -1 ? 'secondary' : 'ghost'}
+        size="sm"
+        onClick={() => vote(-1)}
+        disabled={disabled || voting}
+        aria-pressed={state.userVote === -1}
+        aria-label="Downvote"
+      >
+        <ThumbsDown className={`h-4 w-4 mr-1 ${state.userVote === -1 ? 'fill-current text-destructive' : ''}`} />
+        {state.downvotes}
+      </Button>
+    </div>
+  );
+};
+
+export default VoteButtons;
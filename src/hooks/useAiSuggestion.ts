@@ -0,0 +1,36 @@
+import { useCallback, useState } from 'react';
+import { requestAiSuggestion, type AiSuggestionResult, type SuggestionType } from '@/lib/aiSuggestions';
+
+export function useAiSuggestion<T extends SuggestionType>(type: T) {
+  const [result, setResult] = useState<AiSuggestionResult<T> | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const request = useCallback(async (content: string, subject?: string): Promise<AiSuggestionResult<T>> => {
+    setLoading(true);
+    let next: AiSuggestionResult<T>;
+    try {
+      next = await requestAiSuggestion(type, content, subject);
+    } catch (error) {
+      console.error(`Error requesting ${type} suggestion:`, error);
+      next = { ok: false, error: 'Failed to reach the suggestion service' };
+    }
+    setResult(next);
+    setLoading(false);
+    return next;
+  }, [type]);
+
+  const reset = useCallback(() => setResult(null), []);
+
+  return {
+    result,
+    loading,
+    data: result?.ok ? result.data : null,
+    error: result && result.ok === false ? result.error : null,
+    request,
+    reset,
+  };
+}
+
+export const useQuestionImprovement = () => useAiSuggestion('question-improvement');
+export const useAnswerHints = () => useAiSuggestion('answer-hints');
+export const useStudyPlan = () => useAiSuggestion('study-plan');
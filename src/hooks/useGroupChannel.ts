@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { MessageReaction } from '@/lib/chat';
+import type { Database } from '@/integrations/supabase/types';
+
+type MessageRow = Database['public']['Tables']['messages']['Row'];
+
+export interface TypingUser {
+  user_id: string;
+  full_name: string;
+}
+
+export interface GroupChannelHandlers {
+  onMessageInsert: (message: MessageRow) => void;
+  onMessageUpdate: (message: MessageRow) => void;
+  onReactionInsert: (reaction: MessageReaction) => void;
+  onReactionDelete: (reactionId: string) => void;
+}
+
+interface UseGroupChannelOptions extends GroupChannelHandlers {
+  groupId: string | undefined;
+  // The signed-in user, whose id keys their presence
+  userId: string | undefined;
+  // Display names of the group's members by user id, from their profiles
+  memberNames: Map<string, string>;
+}
+
+// Typing broadcasts go out at most this often, and an indicator disappears
+// if nothing more arrives for TYPING_TIMEOUT_MS
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_TIMEOUT_MS = 4000;
+
+// One private realtime channel per group carrying message and reaction
+// changes, presence for who is online and typing broadcasts. Only members
+// can join it (see the realtime.messages policies). Typing events are sent
+// by send_typing with the sender's id from their session, and names are
+// looked up from the member list rather than taken from any payload.
+// Handlers are read through a ref so passing new functions doesn't
+// resubscribe.
+export function useGroupChannel({ groupId, userId, memberNames, ...handlers }: UseGroupChannelOptions) {
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const handlersRef = useRef<GroupChannelHandlers>(handlers);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const typingTimeoutsRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const memberNamesRef = useRef(memberNames);
+
+  handlersRef.current = handlers;
+  memberNamesRef.current = memberNames;
+
+  const stopTyping = useCallback((typingUserId: string) => {
+    clearTimeout(typingTimeoutsRef.current.get(typingUserId));
+    typingTimeoutsRef.current.delete(typingUserId);
+    setTypingUsers(prev => prev.filter(typingUser => typingUser.user_id !== typingUserId));
+  }, []);
+
+  useEffect(() => {
+    if (!groupId || !userId) return;
+
+    const typingTimeouts = typingTimeoutsRef.current;
+    const channel = supabase.channel(`group:${groupId}`, {
+      config: { private: true, presence: { key: userId } },
+    });
+
+    channel
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `group_id=eq.${groupId}` },
+        (payload) => {
+          const message = payload.new as MessageRow;
+          stopTyping(message.user_id);
+          handlersRef.current.onMessageInsert(message);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `group_id=eq.${groupId}` },
+        (payload) => handlersRef.current.onMessageUpdate(payload.new as MessageRow)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'message_reactions', filter: `group_id=eq.${groupId}` },
+        (payload) => handlersRef.current.onReactionInsert(payload.new as MessageReaction)
+      )
+      .on(
+        // DELETE events can't be filtered server-side; unknown ids are ignored
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'message_reactions' },
+        (payload) => handlersRef.current.onReactionDelete(payload.old.id)
+      )
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(new Set(Object.keys(channel.presenceState())));
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const typingUserId = (payload as { user_id?: unknown }).user_id;
+        if (typeof typingUserId !== 'string' || typingUserId === userId) return;
+
+        // Only members who are on the channel show up as typing
+        const fullName = memberNamesRef.current.get(typingUserId);
+        if (!fullName || !(typingUserId in channel.presenceState())) return;
+
+        const typingUser: TypingUser = { user_id: typingUserId, full_name: fullName };
+        clearTimeout(typingTimeouts.get(typingUser.user_id));
+        typingTimeouts.set(typingUser.user_id, setTimeout(() => stopTyping(typingUser.user_id), TYPING_TIMEOUT_MS));
+        setTypingUsers(prev => prev.some(u => u.user_id === typingUser.user_id) ? prev : [...prev, typingUser]);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      typingTimeouts.forEach(timeout => clearTimeout(timeout));
+      typingTimeouts.clear();
+      setTypingUsers([]);
+      setOnlineUserIds(new Set());
+      supabase.removeChannel(channel);
+    };
+  }, [groupId, userId, stopTyping]);
+
+  // Call on every keystroke; typing events are throttled here
+  const sendTyping = useCallback(() => {
+    const now = Date.now();
+    if (!channelRef.current || !groupId || now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+
+    lastTypingSentRef.current = now;
+    supabase.rpc('send_typing', { p_group_id: groupId }).then(({ error }) => {
+      if (error) console.error('Error sending typing indicator:', error);
+    });
+  }, [groupId]);
+
+  return { onlineUserIds, typingUsers, sendTyping };
+}
+
+export function formatTypingUsers(typingUsers: TypingUser[]): string | null {
+  const names = typingUsers.map(typingUser => typingUser.full_name);
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing...`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+  return 'Several people are typing...';
+}
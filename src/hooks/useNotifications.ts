@@ -0,0 +1,160 @@
+import { useEffect } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface AppNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  related_id: string | null;
+  is_read: boolean | null;
+  event_count: number;
+  created_at: string;
+}
+
+export const NOTIFICATION_PAGE_SIZE = 20;
+
+const NOTIFICATION_COLUMNS = 'id, type, title, message, related_id, is_read, event_count, created_at';
+
+// Position of the last row of a page, newest first
+interface NotificationCursor {
+  created_at: string;
+  id: string;
+}
+
+async function fetchNotificationPage(userId: string, unreadOnly: boolean, cursor: NotificationCursor | null) {
+  let query = supabase
+    .from('notifications')
+    .select(NOTIFICATION_COLUMNS)
+    .eq('user_id', userId);
+
+  if (unreadOnly) query = query.eq('is_read', false);
+  if (cursor) {
+    // Quoted because timestamps contain characters PostgREST treats as syntax
+    const createdAt = `"${cursor.created_at}"`;
+    query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(NOTIFICATION_PAGE_SIZE);
+
+  if (error) throw error;
+  return (data || []) as AppNotification[];
+}
+
+// Keeps every notifications query fresh while the user is signed in. Mount
+// once; the bell in Navigation does.
+export function useNotificationSubscription() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Coalesced notifications arrive as updates, so listen for every change
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['notifications', user.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+}
+
+export function useUnreadNotificationCount() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['notifications', user?.id, 'unread-count'],
+    enabled: !!user,
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user!.id)
+        .eq('is_read', false);
+
+      if (error) throw error;
+      return count || 0;
+    },
+  });
+}
+
+export function useRecentNotifications(limit = 8) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['notifications', user?.id, 'recent', limit],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select(NOTIFICATION_COLUMNS)
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as AppNotification[];
+    },
+  });
+}
+
+export function useNotificationFeed(unreadOnly: boolean) {
+  const { user } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: ['notifications', user?.id, 'feed', unreadOnly],
+    enabled: !!user,
+    queryFn: ({ pageParam }) => fetchNotificationPage(user!.id, unreadOnly, pageParam),
+    initialPageParam: null as NotificationCursor | null,
+    getNextPageParam: (lastPage): NotificationCursor | undefined => {
+      if (lastPage.length < NOTIFICATION_PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { created_at: last.created_at, id: last.id };
+    },
+  });
+}
+
+export function useMarkNotificationsRead() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Pass ids to mark specific notifications, or nothing to mark them all
+  return async (ids?: string[]) => {
+    if (!user) return;
+
+    let query = supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', user.id)
+      .eq('is_read', false);
+
+    if (ids) query = query.in('id', ids);
+
+    const { error } = await query;
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['notifications', user.id] });
+  };
+}
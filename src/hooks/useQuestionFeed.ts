@@ -0,0 +1,130 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchTag } from '@/lib/tags';
+
+export type QuestionSort = 'newest' | 'votes';
+export type QuestionFilter = 'all' | 'unanswered' | 'resolved';
+
+export interface FeedQuestion {
+  id: string;
+  title: string;
+  content: string;
+  user_id: string;
+  subject_id: string | null;
+  difficulty: string;
+  upvotes: number | null;
+  downvotes: number | null;
+  vote_score: number;
+  answer_count: number;
+  view_count: number | null;
+  is_resolved: boolean | null;
+  created_at: string;
+  profiles: { full_name: string } | null;
+  subjects: { name: string; code: string } | null;
+  tags: { name: string }[];
+}
+
+// Position of the last row of a page in the feed ordering
+interface FeedCursor {
+  created_at: string;
+  id: string;
+  vote_score?: number;
+}
+
+export const QUESTION_PAGE_SIZE = 20;
+
+// Values are quoted because timestamps contain characters PostgREST treats
+// as syntax inside or() filters
+const keysetFilter = (sort: QuestionSort, cursor: FeedCursor) => {
+  const createdAt = `"${cursor.created_at}"`;
+  const newest = `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`;
+
+  if (sort === 'newest') return newest;
+
+  const score = cursor.vote_score ?? 0;
+  return [
+    `vote_score.lt.${score}`,
+    `and(vote_score.eq.${score},created_at.lt.${createdAt})`,
+    `and(vote_score.eq.${score},created_at.eq.${createdAt},id.lt.${cursor.id})`,
+  ].join(',');
+};
+
+async function fetchQuestionPage(
+  sort: QuestionSort,
+  filter: QuestionFilter,
+  tagName: string | null,
+  cursor: FeedCursor | null
+): Promise<FeedQuestion[]> {
+  // Filtering by tag needs an inner join on the tag links
+  let tagId: string | null = null;
+  if (tagName) {
+    const tag = await fetchTag(tagName);
+    if (!tag) return [];
+    tagId = tag.id;
+  }
+
+  let query = supabase
+    .from('questions')
+    .select(`
+      id,
+      title,
+      content,
+      user_id,
+      subject_id,
+      difficulty,
+      upvotes,
+      downvotes,
+      vote_score,
+      answer_count,
+      view_count,
+      is_resolved,
+      created_at,
+      subjects:subject_id (name, code),
+      tags (name)${tagId ? ', question_tags!inner (tag_id)' : ''}
+    `);
+
+  if (filter === 'unanswered') query = query.eq('answer_count', 0);
+  if (filter === 'resolved') query = query.eq('is_resolved', true);
+  if (tagId) query = query.eq('question_tags.tag_id', tagId);
+  if (cursor) query = query.or(keysetFilter(sort, cursor));
+
+  if (sort === 'votes') query = query.order('vote_score', { ascending: false });
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(QUESTION_PAGE_SIZE);
+
+  if (error) throw error;
+  // The select string is built at runtime, so the row type can't be inferred
+  const rows = (data ?? []) as unknown as Omit<FeedQuestion, 'profiles'>[];
+  if (!rows.length) return [];
+
+  // Fetch profiles separately to avoid relation issues
+  const userIds = [...new Set(rows.map(question => question.user_id))];
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('user_id, full_name')
+    .in('user_id', userIds);
+
+  if (profilesError) {
+    console.error('Error fetching profiles:', profilesError);
+  }
+
+  return rows.map(question => ({
+    ...question,
+    profiles: profiles?.find(p => p.user_id === question.user_id) || null,
+  }));
+}
+
+export function useQuestionFeed(sort: QuestionSort, filter: QuestionFilter, tag: string | null = null) {
+  return useInfiniteQuery({
+    queryKey: ['question-feed', sort, filter, tag],
+    queryFn: ({ pageParam }) => fetchQuestionPage(sort, filter, tag, pageParam),
+    initialPageParam: null as FeedCursor | null,
+    getNextPageParam: (lastPage): FeedCursor | undefined => {
+      if (lastPage.length < QUESTION_PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { created_at: last.created_at, id: last.id, vote_score: last.vote_score };
+    },
+  });
+}
@@ -14,6 +14,27 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_suggestion_requests: {
+        Row: {
+          created_at: string
+          id: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       answers: {
         Row: {
           content: string
@@ -22,6 +43,7 @@ export type Database = {
           id: string
           is_accepted: boolean | null
           question_id: string
+          search_vector: unknown | null
           updated_at: string | null
           upvotes: number | null
           user_id: string
@@ -33,6 +55,7 @@ export type Database = {
           id?: string
           is_accepted?: boolean | null
           question_id: string
+          search_vector?: unknown | null
           updated_at?: string | null
           upvotes?: number | null
           user_id: string
@@ -44,6 +67,7 @@ export type Database = {
           id?: string
           is_accepted?: boolean | null
           question_id?: string
+          search_vector?: unknown | null
           updated_at?: string | null
           upvotes?: number | null
           user_id?: string
@@ -58,6 +82,27 @@ export type Database = {
           },
         ]
       }
+      badge_requirement_types: {
+        Row: {
+          counter_query: string
+          created_at: string
+          description: string
+          type: string
+        }
+        Insert: {
+          counter_query: string
+          created_at?: string
+          description: string
+          type: string
+        }
+        Update: {
+          counter_query?: string
+          created_at?: string
+          description?: string
+          type?: string
+        }
+        Relationships: []
+      }
       badges: {
         Row: {
           color: string
@@ -89,8 +134,180 @@ export type Database = {
           requirement_type?: string
           requirement_value?: number
         }
+        Relationships: [
+          {
+            foreignKeyName: "badges_requirement_type_fkey"
+            columns: ["requirement_type"]
+            isOneToOne: false
+            referencedRelation: "badge_requirement_types"
+            referencedColumns: ["type"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
         Relationships: []
       }
+      comments: {
+        Row: {
+          answer_id: string | null
+          content: string
+          created_at: string
+          deleted_at: string | null
+          id: string
+          parent_id: string | null
+          question_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          answer_id?: string | null
+          content: string
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          parent_id?: string | null
+          question_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          answer_id?: string | null
+          content?: string
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          parent_id?: string | null
+          question_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_invites: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          group_id: string
+          id: string
+          invited_user_id: string | null
+          max_uses: number | null
+          revoked_at: string | null
+          token: string
+          use_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          group_id: string
+          id?: string
+          invited_user_id?: string | null
+          max_uses?: number | null
+          revoked_at?: string | null
+          token?: string
+          use_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          group_id?: string
+          id?: string
+          invited_user_id?: string | null
+          max_uses?: number | null
+          revoked_at?: string | null
+          token?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_invites_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "study_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_join_requests: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          message: string | null
+          responded_at: string | null
+          responded_by: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          message?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          message?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_join_requests_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "study_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       group_members: {
         Row: {
           group_id: string
@@ -115,45 +332,357 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "group_members_group_id_fkey"
-            columns: ["group_id"]
+            foreignKeyName: "group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "study_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_members_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      group_note_revisions: {
+        Row: {
+          author_id: string | null
+          content: string
+          created_at: string
+          id: string
+          note_id: string
+          restored_from: number | null
+          revision: number
+          title: string
+        }
+        Insert: {
+          author_id?: string | null
+          content: string
+          created_at?: string
+          id?: string
+          note_id: string
+          restored_from?: number | null
+          revision: number
+          title: string
+        }
+        Update: {
+          author_id?: string | null
+          content?: string
+          created_at?: string
+          id?: string
+          note_id?: string
+          restored_from?: number | null
+          revision?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_note_revisions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "group_note_revisions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "group_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_notes: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string
+          current_revision: number
+          group_id: string
+          id: string
+          title: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          created_by: string
+          current_revision?: number
+          group_id: string
+          id?: string
+          title: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string
+          current_revision?: number
+          group_id?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_notes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "group_notes_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "study_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_notes_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      group_read_state: {
+        Row: {
+          group_id: string
+          last_read_at: string
+          last_read_message_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          group_id: string
+          last_read_at: string
+          last_read_message_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          group_id?: string
+          last_read_at?: string
+          last_read_message_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_read_state_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "study_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_read_state_last_read_message_id_fkey"
+            columns: ["last_read_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_sessions: {
+        Row: {
+          agenda: string | null
+          created_at: string
+          created_by: string
+          ends_at: string
+          group_id: string
+          id: string
+          location: string | null
+          meeting_url: string | null
+          reminder_sent_at: string | null
+          starts_at: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          agenda?: string | null
+          created_at?: string
+          created_by: string
+          ends_at: string
+          group_id: string
+          id?: string
+          location?: string | null
+          meeting_url?: string | null
+          reminder_sent_at?: string | null
+          starts_at: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          agenda?: string | null
+          created_at?: string
+          created_by?: string
+          ends_at?: string
+          group_id?: string
+          id?: string
+          location?: string | null
+          meeting_url?: string | null
+          reminder_sent_at?: string | null
+          starts_at?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_sessions_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "study_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          group_id: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          group_id: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          group_id?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "study_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          content: string
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          file_name: string | null
+          file_size: number | null
+          file_type: string | null
+          file_url: string | null
+          group_id: string
+          id: string
+          message_type: string | null
+          reply_to_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          file_name?: string | null
+          file_size?: number | null
+          file_type?: string | null
+          file_url?: string | null
+          group_id: string
+          id?: string
+          message_type?: string | null
+          reply_to_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          file_name?: string | null
+          file_size?: number | null
+          file_type?: string | null
+          file_url?: string | null
+          group_id?: string
+          id?: string
+          message_type?: string | null
+          reply_to_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "study_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
             isOneToOne: false
-            referencedRelation: "study_groups"
+            referencedRelation: "messages"
             referencedColumns: ["id"]
           },
         ]
       }
-      messages: {
+      notification_preferences: {
         Row: {
-          content: string
-          created_at: string
-          file_name: string | null
-          file_url: string | null
-          group_id: string
-          id: string
-          message_type: string | null
+          enabled: boolean
+          type: string
           updated_at: string
           user_id: string
         }
         Insert: {
-          content: string
-          created_at?: string
-          file_name?: string | null
-          file_url?: string | null
-          group_id: string
-          id?: string
-          message_type?: string | null
+          enabled?: boolean
+          type: string
           updated_at?: string
           user_id: string
         }
         Update: {
-          content?: string
-          created_at?: string
-          file_name?: string | null
-          file_url?: string | null
-          group_id?: string
-          id?: string
-          message_type?: string | null
+          enabled?: boolean
+          type?: string
           updated_at?: string
           user_id?: string
         }
@@ -162,6 +691,7 @@ export type Database = {
       notifications: {
         Row: {
           created_at: string
+          event_count: number
           id: string
           is_read: boolean | null
           message: string
@@ -172,6 +702,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          event_count?: number
           id?: string
           is_read?: boolean | null
           message: string
@@ -182,6 +713,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          event_count?: number
           id?: string
           is_read?: boolean | null
           message?: string
@@ -192,6 +724,47 @@ export type Database = {
         }
         Relationships: []
       }
+      point_transactions: {
+        Row: {
+          created_at: string
+          id: string
+          points: number
+          reason: string
+          reversal_of: string | null
+          source_id: string
+          source_type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          points: number
+          reason: string
+          reversal_of?: string | null
+          source_id: string
+          source_type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          points?: number
+          reason?: string
+          reversal_of?: string | null
+          source_id?: string
+          source_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "point_transactions_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: true
+            referencedRelation: "point_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       premium_purchases: {
         Row: {
           amount: number
@@ -238,9 +811,12 @@ export type Database = {
           avatar_url: string | null
           bio: string | null
           created_at: string | null
+          digest_frequency: string
           full_name: string
           grade_level: string | null
           id: string
+          last_digest_attempt_at: string | null
+          last_digest_sent_at: string | null
           points: number | null
           school_name: string | null
           updated_at: string | null
@@ -250,9 +826,12 @@ export type Database = {
           avatar_url?: string | null
           bio?: string | null
           created_at?: string | null
+          digest_frequency?: string
           full_name: string
           grade_level?: string | null
           id?: string
+          last_digest_attempt_at?: string | null
+          last_digest_sent_at?: string | null
           points?: number | null
           school_name?: string | null
           updated_at?: string | null
@@ -262,9 +841,12 @@ export type Database = {
           avatar_url?: string | null
           bio?: string | null
           created_at?: string | null
+          digest_frequency?: string
           full_name?: string
           grade_level?: string | null
           id?: string
+          last_digest_attempt_at?: string | null
+          last_digest_sent_at?: string | null
           points?: number | null
           school_name?: string | null
           updated_at?: string | null
@@ -272,48 +854,93 @@ export type Database = {
         }
         Relationships: []
       }
+      question_tags: {
+        Row: {
+          created_at: string
+          question_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          question_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          question_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_tags_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       questions: {
         Row: {
+          answer_count: number
           content: string
           created_at: string | null
           difficulty: Database["public"]["Enums"]["difficulty_level"] | null
+          downvotes: number | null
           grade_level: string | null
           id: string
           is_resolved: boolean | null
+          search_vector: unknown | null
           subject_id: string | null
           title: string
           updated_at: string | null
           upvotes: number | null
           user_id: string
           view_count: number | null
+          vote_score: number | null
         }
         Insert: {
+          answer_count?: number
           content: string
           created_at?: string | null
           difficulty?: Database["public"]["Enums"]["difficulty_level"] | null
+          downvotes?: number | null
           grade_level?: string | null
           id?: string
           is_resolved?: boolean | null
+          search_vector?: unknown | null
           subject_id?: string | null
           title: string
           updated_at?: string | null
           upvotes?: number | null
           user_id: string
           view_count?: number | null
+          vote_score?: number | null
         }
         Update: {
+          answer_count?: number
           content?: string
           created_at?: string | null
           difficulty?: Database["public"]["Enums"]["difficulty_level"] | null
+          downvotes?: number | null
           grade_level?: string | null
           id?: string
           is_resolved?: boolean | null
+          search_vector?: unknown | null
           subject_id?: string | null
           title?: string
           updated_at?: string | null
           upvotes?: number | null
           user_id?: string
           view_count?: number | null
+          vote_score?: number | null
         }
         Relationships: [
           {
@@ -325,6 +952,39 @@ export type Database = {
           },
         ]
       }
+      resource_tags: {
+        Row: {
+          created_at: string
+          resource_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          resource_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          resource_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_tags_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resource_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       resources: {
         Row: {
           created_at: string | null
@@ -335,6 +995,7 @@ export type Database = {
           file_url: string | null
           id: string
           rating: number | null
+          search_vector: unknown | null
           subject_id: string | null
           title: string
           updated_at: string | null
@@ -349,6 +1010,7 @@ export type Database = {
           file_url?: string | null
           id?: string
           rating?: number | null
+          search_vector?: unknown | null
           subject_id?: string | null
           title: string
           updated_at?: string | null
@@ -363,6 +1025,7 @@ export type Database = {
           file_url?: string | null
           id?: string
           rating?: number | null
+          search_vector?: unknown | null
           subject_id?: string | null
           title?: string
           updated_at?: string | null
@@ -378,6 +1041,69 @@ export type Database = {
           },
         ]
       }
+      session_rsvps: {
+        Row: {
+          responded_at: string
+          session_id: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          responded_at?: string
+          session_id: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          responded_at?: string
+          session_id?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_rsvps_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "group_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_rsvps_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      storage_deletions: {
+        Row: {
+          attempts: number
+          bucket_id: string
+          created_at: string
+          id: string
+          last_error: string | null
+          object_path: string
+        }
+        Insert: {
+          attempts?: number
+          bucket_id: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          object_path: string
+        }
+        Update: {
+          attempts?: number
+          bucket_id?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          object_path?: string
+        }
+        Relationships: []
+      }
       study_groups: {
         Row: {
           created_at: string | null
@@ -385,8 +1111,10 @@ export type Database = {
           description: string | null
           id: string
           max_members: number | null
+          member_count: number
           name: string
           privacy: Database["public"]["Enums"]["privacy_level"] | null
+          search_vector: unknown | null
           subject_id: string | null
           updated_at: string | null
         }
@@ -396,8 +1124,10 @@ export type Database = {
           description?: string | null
           id?: string
           max_members?: number | null
+          member_count?: number
           name: string
           privacy?: Database["public"]["Enums"]["privacy_level"] | null
+          search_vector?: unknown | null
           subject_id?: string | null
           updated_at?: string | null
         }
@@ -407,8 +1137,10 @@ export type Database = {
           description?: string | null
           id?: string
           max_members?: number | null
+          member_count?: number
           name?: string
           privacy?: Database["public"]["Enums"]["privacy_level"] | null
+          search_vector?: unknown | null
           subject_id?: string | null
           updated_at?: string | null
         }
@@ -420,6 +1152,13 @@ export type Database = {
             referencedRelation: "subjects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "study_groups_creator_id_profiles_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
       subjects: {
@@ -452,6 +1191,59 @@ export type Database = {
         }
         Relationships: []
       }
+      tag_follows: {
+        Row: {
+          created_at: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          tag_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tag_follows_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          follower_count: number
+          id: string
+          name: string
+          usage_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          follower_count?: number
+          id?: string
+          name: string
+          usage_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          follower_count?: number
+          id?: string
+          name?: string
+          usage_count?: number
+        }
+        Relationships: []
+      }
       user_badges: {
         Row: {
           badge_id: string
@@ -529,12 +1321,297 @@ export type Database = {
         }
         Relationships: []
       }
+      votes: {
+        Row: {
+          created_at: string
+          id: string
+          target_id: string
+          target_type: string
+          updated_at: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          target_id: string
+          target_type: string
+          updated_at?: string
+          user_id: string
+          value: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          target_id?: string
+          target_type?: string
+          updated_at?: string
+          user_id?: string
+          value?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_answer: {
+        Args: { p_answer_id: string }
+        Returns: undefined
+      }
+      apply_group_note_revision: {
+        Args: {
+          p_base_revision: number
+          p_content: string
+          p_note_id: string
+          p_restored_from: number
+          p_title: string
+        }
+        Returns: {
+          revision: number
+          status: string
+        }[]
+      }
+      award_points: {
+        Args: {
+          p_points: number
+          p_reason: string
+          p_source_id: string
+          p_source_type: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      cast_vote: {
+        Args: { p_target_id: string; p_target_type: string; p_value: number }
+        Returns: {
+          downvotes: number
+          upvotes: number
+          user_vote: number
+        }[]
+      }
+      consume_ai_suggestion_quota: {
+        Args: { p_limit: number; p_type: string; p_window_minutes?: number }
+        Returns: boolean
+      }
+      create_group_invite: {
+        Args: {
+          p_expires_at?: string
+          p_group_id: string
+          p_invited_user_id?: string
+          p_max_uses?: number
+        }
+        Returns: {
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          group_id: string
+          id: string
+          invited_user_id: string | null
+          max_uses: number | null
+          revoked_at: string | null
+          token: string
+          use_count: number
+        }
+      }
+      create_notification: {
+        Args: {
+          p_coalesced_title?: string
+          p_message: string
+          p_related_id: string
+          p_title: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      evaluate_badges: {
+        Args: { p_types?: string[]; p_user_id: string }
+        Returns: number
+      }
+      extract_mentions: {
+        Args: { p_content: string }
+        Returns: string[]
+      }
+      get_badge_counter: {
+        Args: { p_type: string; p_user_id: string }
+        Returns: number
+      }
+      get_badge_progress: {
+        Args: { p_user_id: string }
+        Returns: {
+          badge_id: string
+          current_value: number
+          earned_at: string
+          requirement_value: number
+        }[]
+      }
+      get_calendar_feed_token: {
+        Args: { p_rotate?: boolean }
+        Returns: string
+      }
+      get_group_role: {
+        Args: { p_group_id: string }
+        Returns: Database["public"]["Enums"]["group_role"]
+      }
+      get_group_unread_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          group_id: string
+          group_name: string
+          last_read_at: string
+          unread_count: number
+        }[]
+      }
+      get_vote_state: {
+        Args: { p_target_id: string; p_target_type: string }
+        Returns: {
+          downvotes: number
+          upvotes: number
+          user_vote: number
+        }[]
+      }
+      group_channel_id: {
+        Args: { p_topic: string }
+        Returns: string
+      }
+      has_group_invite: {
+        Args: { p_group_id: string }
+        Returns: boolean
+      }
+      increment_question_view: {
+        Args: { p_question_id: string }
+        Returns: undefined
+      }
+      is_group_member: {
+        Args: { p_group_id: string }
+        Returns: boolean
+      }
+      is_invite_usable: {
+        Args: {
+          invite: Database["public"]["Tables"]["group_invites"]["Row"]
+        }
+        Returns: boolean
+      }
+      join_group: {
+        Args: { p_group_id: string; p_message?: string }
+        Returns: string
+      }
+      mark_group_read: {
+        Args: { p_group_id: string; p_message_id: string }
+        Returns: undefined
+      }
+      normalize_tag: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      preview_group_invite: {
+        Args: { p_token: string }
+        Returns: {
+          description: string
+          group_id: string
+          group_name: string
+          max_members: number
+          member_count: number
+          status: string
+        }[]
+      }
+      queue_orphaned_storage_objects: {
+        Args: { p_older_than?: unknown }
+        Returns: number
+      }
+      redeem_group_invite: {
+        Args: { p_token: string }
+        Returns: string
+      }
+      respond_to_join_request: {
+        Args: { p_approve: boolean; p_request_id: string }
+        Returns: undefined
+      }
+      restore_group_note_revision: {
+        Args: {
+          p_base_revision: number
+          p_note_id: string
+          p_revision: number
+        }
+        Returns: {
+          revision: number
+          status: string
+        }[]
+      }
+      retract_vote: {
+        Args: { p_target_id: string; p_target_type: string }
+        Returns: {
+          downvotes: number
+          upvotes: number
+          user_vote: number
+        }[]
+      }
+      reverse_points: {
+        Args: { p_reason?: string; p_source_id: string; p_source_type: string }
+        Returns: undefined
+      }
+      save_group_note: {
+        Args: {
+          p_base_revision: number
+          p_content: string
+          p_note_id: string
+          p_title: string
+        }
+        Returns: {
+          revision: number
+          status: string
+        }[]
+      }
+      search_content: {
+        Args: {
+          p_difficulty?: Database["public"]["Enums"]["difficulty_level"]
+          p_is_resolved?: boolean
+          p_limit?: number
+          p_offset?: number
+          p_query: string
+          p_subject_id?: string
+          p_types?: string[]
+        }
+        Returns: {
+          created_at: string
+          id: string
+          question_id: string
+          rank: number
+          result_type: string
+          snippet: string
+          subject_id: string
+          title: string
+        }[]
+      }
+      send_session_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      send_typing: {
+        Args: { p_group_id: string }
+        Returns: undefined
+      }
+      set_content_tags: {
+        Args: { p_tags: string[]; p_target_id: string; p_target_type: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          follower_count: number
+          id: string
+          name: string
+          usage_count: number
+        }[]
+      }
+      set_session_rsvp: {
+        Args: { p_session_id: string; p_status: string }
+        Returns: undefined
+      }
+      transfer_group_ownership: {
+        Args: { p_group_id: string; p_new_owner_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       difficulty_level: "easy" | "medium" | "hard"
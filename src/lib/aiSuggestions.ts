@@ -0,0 +1,51 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  validateSuggestion,
+  type Suggestion,
+  type SuggestionType,
+} from "../../supabase/functions/_shared/ai-schemas";
+
+export type {
+  AnswerHints,
+  QuestionImprovement,
+  StudyPlan,
+  Suggestion,
+  SuggestionType,
+} from "../../supabase/functions/_shared/ai-schemas";
+
+export type AiSuggestionResult<T extends SuggestionType> =
+  | { ok: true; data: Suggestion<T> }
+  | { ok: false; error: string };
+
+// Calls the ai-suggestions edge function and validates the payload against the
+// shared schema, so callers only ever see a well-formed suggestion or a message
+export async function requestAiSuggestion<T extends SuggestionType>(
+  type: T,
+  content: string,
+  subject?: string
+): Promise<AiSuggestionResult<T>> {
+  const { data, error } = await supabase.functions.invoke('ai-suggestions', {
+    body: { type, content, subject }
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      return { ok: false, error: body?.error || 'Failed to get suggestions' };
+    }
+    return { ok: false, error: 'Failed to reach the suggestion service' };
+  }
+
+  if (!data?.success) {
+    return { ok: false, error: data?.error || 'Failed to get suggestions' };
+  }
+
+  const result = validateSuggestion(type, data.suggestion);
+  if (result.ok === false) {
+    console.error(`Invalid ${type} suggestion:`, result.error);
+    return { ok: false, error: 'The suggestion service returned an unexpected response' };
+  }
+
+  return result;
+}
@@ -0,0 +1,145 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ChatMessageData {
+  id: string;
+  content: string;
+  message_type: string;
+  created_at: string;
+  user_id: string;
+  file_url: string | null;
+  file_name: string | null;
+  file_type: string | null;
+  file_size: number | null;
+  reply_to_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  profile: { full_name: string; avatar_url?: string };
+}
+
+export interface MessageReaction {
+  id: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+}
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+const MESSAGE_COLUMNS = `
+  id,
+  content,
+  message_type,
+  created_at,
+  user_id,
+  file_url,
+  file_name,
+  file_type,
+  file_size,
+  reply_to_id,
+  edited_at,
+  deleted_at,
+  profile:profiles (full_name, avatar_url)
+`;
+
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface MessagePage {
+  messages: ChatMessageData[];
+  // Whether another page exists in the direction that was fetched
+  hasMore: boolean;
+}
+
+const withProfiles = (rows: ChatMessageData[]) =>
+  rows.map(message => ({
+    ...message,
+    profile: message.profile || { full_name: 'Unknown User', avatar_url: null }
+  }));
+
+// Quoted because timestamps contain characters PostgREST treats as syntax
+const quoted = (timestamp: string) => `"${timestamp}"`;
+
+// The page of messages before the cursor, or the latest page without one.
+// Returned oldest first, ready to render.
+export async function fetchMessagesBefore(groupId: string, cursor?: MessageCursor): Promise<MessagePage> {
+  let query = supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('group_id', groupId);
+
+  if (cursor) {
+    const createdAt = quoted(cursor.created_at);
+    query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(MESSAGE_PAGE_SIZE);
+
+  if (error) throw error;
+  return {
+    messages: withProfiles((data || []) as ChatMessageData[]).reverse(),
+    hasMore: (data || []).length === MESSAGE_PAGE_SIZE,
+  };
+}
+
+// The page of messages after the cursor, oldest first. Used when reading
+// history after jumping to a date.
+export async function fetchMessagesAfter(groupId: string, cursor: MessageCursor): Promise<MessagePage> {
+  const createdAt = quoted(cursor.created_at);
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('group_id', groupId)
+    .or(`created_at.gt.${createdAt},and(created_at.eq.${createdAt},id.gt.${cursor.id})`)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(MESSAGE_PAGE_SIZE);
+
+  if (error) throw error;
+  return {
+    messages: withProfiles((data || []) as ChatMessageData[]),
+    hasMore: (data || []).length === MESSAGE_PAGE_SIZE,
+  };
+}
+
+// Messages from the start of the given day onwards, oldest first
+export async function fetchMessagesFromDate(groupId: string, date: Date): Promise<MessagePage> {
+  const startOfDay = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('group_id', groupId)
+    .gte('created_at', startOfDay.toISOString())
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(MESSAGE_PAGE_SIZE);
+
+  if (error) throw error;
+  return {
+    messages: withProfiles((data || []) as ChatMessageData[]),
+    hasMore: (data || []).length === MESSAGE_PAGE_SIZE,
+  };
+}
+
+export function isSameDay(a: string, b: string): boolean {
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+export function formatDayLabel(timestamp: string): string {
+  const date = new Date(timestamp);
+  const today = new Date();
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString([], {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: date.getFullYear() === today.getFullYear() ? undefined : 'numeric',
+  });
+}
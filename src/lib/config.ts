@@ -0,0 +1,4 @@
+// The Supabase project the app talks to. integrations/supabase/client.ts is
+// generated and keeps its own copy, so set VITE_SUPABASE_URL when pointing
+// the app at another project.
+export const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL ?? 'https://zrvlzwdsanuwwfcptttw.supabase.co';
@@ -0,0 +1,88 @@
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers in the old and new text; null on the side the
+  // line doesn't appear in
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+const splitLines = (text: string) => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+// Line-based diff using the longest common subsequence. Unchanged lines at
+// either end are trimmed first, so typical edits to long notes stay cheap.
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // lengths[i][j] is the LCS length of midA[i:] and midB[j:]
+  const lengths = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i][j] = midA[i] === midB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (type: DiffLineType, text: string) => {
+    result.push({
+      type,
+      text,
+      oldLine: type === 'added' ? null : oldLine++,
+      newLine: type === 'removed' ? null : newLine++,
+    });
+  };
+
+  a.slice(0, start).forEach(text => push('equal', text));
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      push('equal', midA[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', midA[i++]);
+    } else {
+      push('added', midB[j++]);
+    }
+  }
+  while (i < midA.length) push('removed', midA[i++]);
+  while (j < midB.length) push('added', midB[j++]);
+
+  a.slice(endA).forEach(text => push('equal', text));
+
+  return result;
+}
+
+export function diffStats(lines: DiffLine[]): DiffStats {
+  return {
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+  };
+}
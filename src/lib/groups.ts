@@ -0,0 +1,149 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type JoinGroupStatus = 'joined' | 'requested' | 'already_member';
+
+// Joins a public group or requests to join a private one. Capacity and
+// privacy are checked by the join_group RPC, whose errors ("This group is
+// full", "This group is invite-only") are meant to be shown as-is.
+export async function joinGroup(groupId: string, message?: string): Promise<JoinGroupStatus> {
+  const { data, error } = await supabase.rpc('join_group', {
+    p_group_id: groupId,
+    p_message: message,
+  });
+
+  if (error) throw error;
+  return data as JoinGroupStatus;
+}
+
+export async function respondToJoinRequest(requestId: string, approve: boolean) {
+  const { error } = await supabase.rpc('respond_to_join_request', {
+    p_request_id: requestId,
+    p_approve: approve,
+  });
+
+  if (error) throw error;
+}
+
+export function joinGroupMessage(status: JoinGroupStatus, groupName: string): string {
+  switch (status) {
+    case 'joined':
+      return `You joined ${groupName}`;
+    case 'requested':
+      return `Your request to join ${groupName} was sent to its admins`;
+    case 'already_member':
+      return `You're already a member of ${groupName}`;
+  }
+}
+
+export type GroupInvite = Database['public']['Tables']['group_invites']['Row'];
+
+export type InviteStatus =
+  | 'valid'
+  | 'expired'
+  | 'revoked'
+  | 'used_up'
+  | 'not_for_you'
+  | 'already_member'
+  | 'full';
+
+export interface InvitePreview {
+  group_id: string;
+  group_name: string;
+  description: string | null;
+  member_count: number;
+  max_members: number | null;
+  status: InviteStatus;
+}
+
+export interface CreateInviteOptions {
+  invitedUserId?: string;
+  maxUses?: number;
+  expiresAt?: Date;
+}
+
+// Creates an invite link, or a direct invite when invitedUserId is given.
+// Direct invites notify the invited user and are always single-use.
+export async function createGroupInvite(groupId: string, options: CreateInviteOptions = {}): Promise<GroupInvite> {
+  const { data, error } = await supabase.rpc('create_group_invite', {
+    p_group_id: groupId,
+    p_invited_user_id: options.invitedUserId,
+    p_max_uses: options.maxUses,
+    p_expires_at: options.expiresAt?.toISOString(),
+  });
+
+  if (error) throw error;
+  return data as GroupInvite;
+}
+
+export async function revokeGroupInvite(inviteId: string) {
+  const { error } = await supabase
+    .from('group_invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId);
+
+  if (error) throw error;
+}
+
+// Null when the token doesn't match any invite
+export async function previewGroupInvite(token: string): Promise<InvitePreview | null> {
+  const { data, error } = await supabase.rpc('preview_group_invite', { p_token: token });
+
+  if (error) throw error;
+  return (data?.[0] as InvitePreview | undefined) ?? null;
+}
+
+// Joins the group the invite is for and returns its id
+export async function redeemGroupInvite(token: string): Promise<string> {
+  const { data, error } = await supabase.rpc('redeem_group_invite', { p_token: token });
+
+  if (error) throw error;
+  return data;
+}
+
+export function inviteLink(token: string): string {
+  return `${window.location.origin}/groups/join/${token}`;
+}
+
+export function inviteStatusMessage(status: InviteStatus): string {
+  switch (status) {
+    case 'valid':
+      return "You've been invited to join this group.";
+    case 'expired':
+      return 'This invite has expired.';
+    case 'revoked':
+      return 'This invite was revoked by a group admin.';
+    case 'used_up':
+      return 'This invite has already been used the maximum number of times.';
+    case 'not_for_you':
+      return 'This invite was sent to someone else.';
+    case 'already_member':
+      return "You're already a member of this group.";
+    case 'full':
+      return 'This group is full.';
+  }
+}
+
+export interface GroupUnreadCount {
+  group_id: string;
+  group_name: string;
+  unread_count: number;
+  last_read_at: string;
+}
+
+// Unread counts for every group the current user belongs to
+export async function fetchGroupUnreadCounts(): Promise<GroupUnreadCount[]> {
+  const { data, error } = await supabase.rpc('get_group_unread_counts');
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function markGroupRead(groupId: string, messageId: string) {
+  const { error } = await supabase.rpc('mark_group_read', {
+    p_group_id: groupId,
+    p_message_id: messageId,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,42 @@
+// Mentions are stored inline as @[Display Name](user-uuid); the server reads
+// the same format in public.extract_mentions to send notifications
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)/gi;
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; userId: string };
+
+export function formatMention(name: string, userId: string): string {
+  // Brackets would end the display name early
+  return `@[${name.replace(/[[\]]/g, '')}](${userId})`;
+}
+
+export function splitMentions(content: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'mention', text: match[1], userId: match[2] });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+  return segments;
+}
+
+// Plain-text version for previews, e.g. "@Jane Doe" instead of the markup
+export function stripMentions(content: string): string {
+  return content.replace(MENTION_PATTERN, '@$1');
+}
+
+// The partial "@name" being typed just before the caret, if any
+export function findMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = /(^|\s)@([^\s@[\]()]{0,30})$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
@@ -0,0 +1,109 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type GroupNote = Database['public']['Tables']['group_notes']['Row'];
+
+export interface NoteSummary {
+  id: string;
+  title: string;
+  current_revision: number;
+  updated_at: string;
+  editor: { full_name: string } | null;
+}
+
+export interface NoteRevision {
+  id: string;
+  revision: number;
+  title: string;
+  content: string;
+  restored_from: number | null;
+  created_at: string;
+  author: { full_name: string; avatar_url?: string } | null;
+}
+
+export type SaveNoteStatus = 'saved' | 'unchanged' | 'conflict';
+
+export interface SaveNoteResult {
+  status: SaveNoteStatus;
+  // The note's latest revision after the call; on a conflict, the revision
+  // someone else saved
+  revision: number;
+}
+
+export async function fetchGroupNotes(groupId: string): Promise<NoteSummary[]> {
+  const { data, error } = await supabase
+    .from('group_notes')
+    .select('id, title, current_revision, updated_at, editor:profiles!group_notes_updated_by_fkey (full_name)')
+    .eq('group_id', groupId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []) as NoteSummary[];
+}
+
+export async function fetchNote(noteId: string): Promise<GroupNote | null> {
+  const { data, error } = await supabase
+    .from('group_notes')
+    .select('*')
+    .eq('id', noteId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+  const { data, error } = await supabase
+    .from('group_note_revisions')
+    .select('id, revision, title, content, restored_from, created_at, author:profiles (full_name, avatar_url)')
+    .eq('note_id', noteId)
+    .order('revision', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []) as NoteRevision[];
+}
+
+export async function createNote(groupId: string, userId: string, title: string, content = ''): Promise<GroupNote> {
+  const { data, error } = await supabase
+    .from('group_notes')
+    .insert({ group_id: groupId, created_by: userId, title: title.trim(), content })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Saves on top of baseRevision, the revision the editor was opened at.
+// Returns a conflict instead of overwriting if someone saved in between.
+export async function saveNote(noteId: string, baseRevision: number, title: string, content: string): Promise<SaveNoteResult> {
+  const { data, error } = await supabase.rpc('save_group_note', {
+    p_note_id: noteId,
+    p_base_revision: baseRevision,
+    p_title: title,
+    p_content: content,
+  });
+
+  if (error) throw error;
+  return data[0] as SaveNoteResult;
+}
+
+export async function restoreNoteRevision(noteId: string, revision: number, baseRevision: number): Promise<SaveNoteResult> {
+  const { data, error } = await supabase.rpc('restore_group_note_revision', {
+    p_note_id: noteId,
+    p_revision: revision,
+    p_base_revision: baseRevision,
+  });
+
+  if (error) throw error;
+  return data[0] as SaveNoteResult;
+}
+
+export async function deleteNote(noteId: string) {
+  const { error } = await supabase
+    .from('group_notes')
+    .delete()
+    .eq('id', noteId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,17 @@
+// Notification types users can opt out of, in the order shown in settings.
+// Must match the notifications_type_check constraint.
+export const NOTIFICATION_TYPES = [
+  { type: 'question_answered', label: 'Answers to my questions', description: 'Someone answers a question you asked' },
+  { type: 'answer_accepted', label: 'Accepted answers', description: 'Your answer is marked as accepted' },
+  { type: 'comment_added', label: 'Comments and replies', description: 'Someone comments on your post or replies to your comment' },
+  { type: 'mention', label: 'Mentions', description: 'Someone mentions you with @' },
+  { type: 'group_invitation', label: 'Group invitations', description: 'You are added to a study group' },
+  { type: 'join_request', label: 'Join requests', description: 'Someone asks to join a group you manage' },
+  { type: 'session_reminder', label: 'Session reminders', description: 'A study session you plan to attend starts within the hour' },
+  { type: 'resource_shared', label: 'Resources in followed tags', description: 'A resource is shared with a tag you follow' },
+  { type: 'points_earned', label: 'Badges', description: 'You earn a new badge' },
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number]['type'];
+
+export { getNotificationLink } from "../../supabase/functions/_shared/notification-links";
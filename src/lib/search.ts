@@ -0,0 +1,91 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type SearchResultType = 'question' | 'answer' | 'resource' | 'group';
+
+export interface SearchResult {
+  result_type: SearchResultType;
+  id: string;
+  question_id: string | null;
+  title: string;
+  snippet: string;
+  subject_id: string | null;
+  rank: number;
+  created_at: string;
+}
+
+export interface SearchFilters {
+  types?: SearchResultType[];
+  subjectId?: string;
+  difficulty?: Database["public"]["Enums"]["difficulty_level"];
+  isResolved?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export const SEARCH_RESULT_LABELS: Record<SearchResultType, string> = {
+  question: 'Questions',
+  answer: 'Answers',
+  resource: 'Resources',
+  group: 'Study Groups',
+};
+
+export async function searchContent(query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+  const { data, error } = await supabase.rpc('search_content', {
+    p_query: query,
+    p_types: filters.types?.length ? filters.types : undefined,
+    p_subject_id: filters.subjectId,
+    p_difficulty: filters.difficulty,
+    p_is_resolved: filters.isResolved,
+    p_limit: filters.limit,
+    p_offset: filters.offset,
+  });
+
+  if (error) throw error;
+  return (data || []) as SearchResult[];
+}
+
+// Values in PostgREST logic filters are quoted so commas, dots and
+// parentheses in what the user typed can't break the filter
+const quoteFilterValue = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Filter for the search boxes on list pages, for use with .or(): full-text
+// matches on search_vector, plus rows in any subject whose name contains the
+// term, which the tsvector can't cover
+export async function buildListSearchFilter(term: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('subjects')
+    .select('id')
+    .ilike('name', `%${term.replace(/[\\%_]/g, '\\$&')}%`);
+
+  if (error) throw error;
+
+  const filters = [`search_vector.wfts(english).${quoteFilterValue(term)}`];
+  if (data.length) filters.push(`subject_id.in.(${data.map(subject => subject.id).join(',')})`);
+  return filters.join(',');
+}
+
+// Where a result lives in the app
+export function getSearchResultLink(result: SearchResult): string {
+  switch (result.result_type) {
+    case 'question':
+      return `/questions/${result.id}`;
+    case 'answer':
+      return `/questions/${result.question_id}#answer-${result.id}`;
+    case 'resource':
+      return `/resources?highlight=${result.id}`;
+    case 'group':
+      return `/groups/${result.id}`;
+  }
+}
+
+// Splits a ts_headline snippet into plain and highlighted parts so it can be
+// rendered as text rather than injected as HTML
+export function splitHighlights(snippet: string): { text: string; highlighted: boolean }[] {
+  return snippet
+    .split(/(<mark>[\s\S]*?<\/mark>)/)
+    .filter(Boolean)
+    .map(part => part.startsWith('<mark>')
+      ? { text: part.slice(6, -7), highlighted: true }
+      : { text: part, highlighted: false });
+}
@@ -0,0 +1,131 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SUPABASE_URL } from "@/lib/config";
+import type { Database } from "@/integrations/supabase/types";
+
+export type GroupSession = Database['public']['Tables']['group_sessions']['Row'];
+
+export type RsvpStatus = 'going' | 'maybe' | 'not_going';
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  not_going: "Can't go",
+};
+
+export interface SessionRsvp {
+  user_id: string;
+  status: RsvpStatus;
+}
+
+export interface UpcomingSession extends GroupSession {
+  rsvps: SessionRsvp[];
+  group: { name: string } | null;
+}
+
+export interface SessionInput {
+  title: string;
+  agenda?: string;
+  location?: string;
+  meetingUrl?: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+const CALENDAR_FEED_URL = `${SUPABASE_URL}/functions/v1/calendar-feed`;
+
+const toColumns = (input: SessionInput) => ({
+  title: input.title.trim(),
+  agenda: input.agenda?.trim() || null,
+  location: input.location?.trim() || null,
+  meeting_url: input.meetingUrl?.trim() || null,
+  starts_at: input.startsAt.toISOString(),
+  ends_at: input.endsAt.toISOString(),
+});
+
+// Sessions that haven't ended yet, soonest first. Without a group this
+// covers every group the user belongs to, as RLS hides the rest.
+export async function fetchUpcomingSessions(groupId?: string, limit = 20): Promise<UpcomingSession[]> {
+  let query = supabase
+    .from('group_sessions')
+    .select('*, rsvps:session_rsvps (user_id, status), group:study_groups (name)')
+    .gte('ends_at', new Date().toISOString());
+
+  if (groupId) query = query.eq('group_id', groupId);
+
+  const { data, error } = await query
+    .order('starts_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []) as UpcomingSession[];
+}
+
+export async function createSession(groupId: string, userId: string, input: SessionInput) {
+  const { error } = await supabase
+    .from('group_sessions')
+    .insert({ ...toColumns(input), group_id: groupId, created_by: userId });
+
+  if (error) throw error;
+}
+
+export async function updateSession(sessionId: string, input: SessionInput) {
+  const { error } = await supabase
+    .from('group_sessions')
+    .update(toColumns(input))
+    .eq('id', sessionId);
+
+  if (error) throw error;
+}
+
+export async function deleteSession(sessionId: string) {
+  const { error } = await supabase
+    .from('group_sessions')
+    .delete()
+    .eq('id', sessionId);
+
+  if (error) throw error;
+}
+
+export async function setRsvp(sessionId: string, status: RsvpStatus) {
+  const { error } = await supabase.rpc('set_session_rsvp', {
+    p_session_id: sessionId,
+    p_status: status,
+  });
+
+  if (error) throw error;
+}
+
+export function countRsvps(rsvps: SessionRsvp[]): Record<RsvpStatus, number> {
+  return {
+    going: rsvps.filter(r => r.status === 'going').length,
+    maybe: rsvps.filter(r => r.status === 'maybe').length,
+    not_going: rsvps.filter(r => r.status === 'not_going').length,
+  };
+}
+
+// The user's calendar feed, for every group or just one. Rotating the token
+// stops all previously shared feed links from working.
+export async function getCalendarFeedUrl(groupId?: string, rotate = false): Promise<string> {
+  const { data, error } = await supabase.rpc('get_calendar_feed_token', { p_rotate: rotate });
+
+  if (error) throw error;
+  const params = new URLSearchParams({ token: data });
+  if (groupId) params.set('group', groupId);
+  return `${CALENDAR_FEED_URL}?${params}`;
+}
+
+// Calendar apps offer to subscribe to webcal:// links rather than download them
+export function webcalLink(feedUrl: string): string {
+  return feedUrl.replace(/^https?:/, 'webcal:');
+}
+
+export function formatSessionTime(session: Pick<GroupSession, 'starts_at' | 'ends_at'>): string {
+  const start = new Date(session.starts_at);
+  const end = new Date(session.ends_at);
+  const day = start.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return start.toDateString() === end.toDateString()
+    ? `${day}, ${time(start)} – ${time(end)}`
+    : `${day}, ${time(start)} – ${end.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${time(end)}`;
+}
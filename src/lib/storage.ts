@@ -0,0 +1,81 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const RESOURCES_BUCKET = 'resources';
+export const CHAT_ATTACHMENTS_BUCKET = 'chat-attachments';
+
+export type StorageBucket = typeof RESOURCES_BUCKET | typeof CHAT_ATTACHMENTS_BUCKET;
+
+// Older rows stored a full URL instead of an object path
+export const isExternalUrl = (value: string) => /^https?:\/\//i.test(value);
+
+// Builds <folder>/.../<uuid>-<name>, keeping the original name readable
+export function buildObjectPath(folders: string[], file: File): string {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+  return [...folders, `${crypto.randomUUID()}-${safeName}`].join('/');
+}
+
+// Uploads through a signed upload URL with XMLHttpRequest so callers get real
+// byte-level progress (fetch has no upload progress events). Resolves with the
+// object path to store on the row.
+export async function uploadWithProgress(
+  bucket: StorageBucket,
+  path: string,
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<string> {
+  const { data, error } = await supabase.storage.from(bucket).createSignedUploadUrl(path);
+  if (error) throw error;
+
+  const body = new FormData();
+  body.append('cacheControl', '3600');
+  body.append('', file);
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(100);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed'));
+    xhr.onabort = () => reject(new Error('Upload cancelled'));
+
+    xhr.send(body);
+  });
+
+  return data.path;
+}
+
+// Resolves a file_url column to something the browser can open
+export async function getFileUrl(
+  bucket: StorageBucket,
+  pathOrUrl: string,
+  options: { expiresIn?: number; download?: string | boolean } = {}
+): Promise<string> {
+  if (isExternalUrl(pathOrUrl)) return pathOrUrl;
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(pathOrUrl, options.expiresIn ?? 3600, { download: options.download });
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function removeFile(bucket: StorageBucket, pathOrUrl: string): Promise<void> {
+  if (isExternalUrl(pathOrUrl)) return;
+
+  const { error } = await supabase.storage.from(bucket).remove([pathOrUrl]);
+  if (error) throw error;
+}
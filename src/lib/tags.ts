@@ -0,0 +1,54 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const MAX_TAGS = 5;
+
+export interface Tag {
+  id: string;
+  name: string;
+  usage_count: number;
+  follower_count: number;
+}
+
+// Mirrors public.normalize_tag so the UI shows tags as they will be stored
+export function normalizeTag(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9+#.]+/g, '-')
+    .slice(0, 30)
+    .replace(/^-+|-+$/g, '');
+}
+
+// Adds tags to a list, skipping duplicates and anything past MAX_TAGS
+export function mergeTags(current: string[], additions: string[]): string[] {
+  const merged = [...current];
+  for (const tag of additions.map(normalizeTag)) {
+    if (tag && !merged.includes(tag) && merged.length < MAX_TAGS) {
+      merged.push(tag);
+    }
+  }
+  return merged;
+}
+
+export async function setContentTags(targetType: 'question' | 'resource', targetId: string, tags: string[]) {
+  const { data, error } = await supabase.rpc('set_content_tags', {
+    p_target_type: targetType,
+    p_target_id: targetId,
+    p_tags: tags,
+  });
+
+  if (error) throw error;
+  return data as Tag[];
+}
+
+// Looks up a tag by name, returning null when it doesn't exist
+export async function fetchTag(name: string): Promise<Tag | null> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('id, name, usage_count, follower_count')
+    .eq('name', normalizeTag(name))
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
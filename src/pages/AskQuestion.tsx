@@ -7,8 +7,13 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Sparkles, Loader2 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
+import { useQuestionImprovement } from "@/hooks/useAiSuggestion";
+import TagInput from "@/components/TagInput";
+import { MAX_TAGS, mergeTags, setContentTags } from "@/lib/tags";
 
 interface Subject {
   id: string;
@@ -28,6 +33,14 @@ export default function AskQuestion() {
     difficulty: "medium",
     grade_level: ""
   });
+  const [tags, setTags] = useState<string[]>([]);
+  const {
+    data: improvement,
+    error: improveError,
+    loading: improving,
+    request: requestImprovement,
+    reset: dismissImprovement,
+  } = useQuestionImprovement();
 
   useEffect(() => {
     fetchSubjects();
@@ -66,6 +79,15 @@ export default function AskQuestion() {
 
       if (error) throw error;
 
+      if (tags.length > 0) {
+        try {
+          await setContentTags('question', data.id, tags);
+        } catch (tagError) {
+          console.error('Error saving tags:', tagError);
+          toast.error("Question posted, but its tags could not be saved");
+        }
+      }
+
       toast.success("Question posted successfully!");
       navigate(`/questions/${data.id}`);
     } catch (error) {
@@ -80,6 +102,35 @@ export default function AskQuestion() {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const improveQuestion = async () => {
+    if (!formData.title.trim() && !formData.content.trim()) return;
+
+    const subject = subjects.find(s => s.id === formData.subject_id);
+    await requestImprovement(
+      [formData.title, formData.content].filter(Boolean).join('\n\n'),
+      subject?.name
+    );
+  };
+
+  const applyImprovedQuestion = () => {
+    if (!improvement?.improvedQuestion) return;
+    handleChange('content', improvement.improvedQuestion);
+    toast.success("Improved question applied");
+  };
+
+  const applySuggestedTags = () => {
+    if (!improvement?.suggestedTags.length) return;
+
+    const merged = mergeTags(tags, improvement.suggestedTags);
+    if (merged.length === tags.length) {
+      toast.info(tags.length >= MAX_TAGS ? `Questions can have up to ${MAX_TAGS} tags` : "These tags are already applied");
+      return;
+    }
+
+    setTags(merged);
+    toast.success("Suggested tags applied");
+  };
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
       <Card>
@@ -112,8 +163,77 @@ export default function AskQuestion() {
                 className="min-h-32"
                 required
               />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={improveQuestion}
+                disabled={improving || (!formData.title.trim() && !formData.content.trim())}
+              >
+                {improving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Sparkles className="h-4 w-4 mr-2" />
+                )}
+                {improving ? "Thinking..." : "Improve my question"}
+              </Button>
             </div>
 
+            {improveError && (
+              <p className="text-sm text-destructive">{improveError}</p>
+            )}
+
+            {improvement && (
+              <Card className="border-primary/30 bg-primary/5">
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Sparkles className="h-4 w-4 text-primary" />
+                    Suggestions
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {improvement.improvedQuestion && (
+                    <div className="space-y-2">
+                      <Label>Improved question</Label>
+                      <p className="text-sm whitespace-pre-wrap">{improvement.improvedQuestion}</p>
+                      <Button type="button" size="sm" onClick={applyImprovedQuestion}>
+                        Use this version
+                      </Button>
+                    </div>
+                  )}
+
+                  {improvement.followUpQuestions.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Follow-up questions</Label>
+                      <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                        {improvement.followUpQuestions.map((followUp, index) => (
+                          <li key={index}>{followUp}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {improvement.suggestedTags.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Suggested tags</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {improvement.suggestedTags.map((tag) => (
+                          <Badge key={tag} variant="secondary">{tag}</Badge>
+                        ))}
+                      </div>
+                      <Button type="button" size="sm" variant="outline" onClick={applySuggestedTags}>
+                        Apply tags
+                      </Button>
+                    </div>
+                  )}
+
+                  <Button type="button" variant="ghost" size="sm" onClick={dismissImprovement}>
+                    Dismiss
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label>Subject</Label>
@@ -156,6 +276,14 @@ export default function AskQuestion() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="tags">Tags</Label>
+              <TagInput id="tags" value={tags} onChange={setTags} />
+              <p className="text-xs text-muted-foreground">
+                Up to {MAX_TAGS} tags so others can find your question. Press Enter to add one.
+              </p>
+            </div>
+
             <div className="flex gap-2">
               <Button type="submit" disabled={loading}>
                 {loading ? "Posting..." : "Post Question"}
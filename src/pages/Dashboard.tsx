@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -12,10 +12,13 @@ import {
   Plus,
   Clock,
   CheckCircle,
-  ArrowRight
+  ArrowRight,
+  CalendarDays
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchGroupUnreadCounts, GroupUnreadCount } from '@/lib/groups';
+import { fetchUpcomingSessions, formatSessionTime, RSVP_LABELS, UpcomingSession } from '@/lib/sessions';
 
 interface Question {
   id: string;
@@ -56,8 +59,12 @@ interface DashboardStats {
 
 const Dashboard = () => {
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const highlightSessionId = searchParams.get('highlight');
   const [recentQuestions, setRecentQuestions] = useState<Question[]>([]);
   const [popularGroups, setPopularGroups] = useState<StudyGroup[]>([]);
+  const [myGroups, setMyGroups] = useState<GroupUnreadCount[]>([]);
+  const [upcomingSessions, setUpcomingSessions] = useState<UpcomingSession[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
     totalQuestions: 0,
     totalAnswers: 0,
@@ -70,6 +77,12 @@ const Dashboard = () => {
     fetchDashboardData();
   }, [user]);
 
+  // Session reminders link to the session in the upcoming list
+  useEffect(() => {
+    if (!highlightSessionId || loading) return;
+    document.getElementById(`session-${highlightSessionId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightSessionId, loading]);
+
   const fetchDashboardData = async () => {
     if (!user) return;
 
@@ -128,15 +141,28 @@ const Dashboard = () => {
         .limit(4);
 
       // Fetch user stats
-      const [questionsCount, answersCount, groupsCount, userProfile] = await Promise.all([
+      const [questionsCount, answersCount, groupsCount, userProfile, unreadCounts, sessions] = await Promise.all([
         supabase.from('questions').select('id', { count: 'exact', head: true }),
         supabase.from('answers').select('id', { count: 'exact', head: true }),
         supabase.from('study_groups').select('id', { count: 'exact', head: true }),
-        supabase.from('profiles').select('points').eq('user_id', user.id).single()
+        supabase.from('profiles').select('points').eq('user_id', user.id).single(),
+        fetchGroupUnreadCounts().catch(error => {
+          console.error('Error fetching unread counts:', error);
+          return [] as GroupUnreadCount[];
+        }),
+        fetchUpcomingSessions(undefined, 5).catch(error => {
+          console.error('Error fetching upcoming sessions:', error);
+          return [] as UpcomingSession[];
+        })
       ]);
 
       setRecentQuestions(questionsWithProfiles);
       setPopularGroups(groups || []);
+      // Groups with unread messages first
+      setMyGroups([...unreadCounts].sort((a, b) =>
+        b.unread_count - a.unread_count || a.group_name.localeCompare(b.group_name)
+      ));
+      setUpcomingSessions(sessions);
       setStats({
         totalQuestions: questionsCount.count || 0,
         totalAnswers: answersCount.count || 0,
@@ -274,6 +300,76 @@ const Dashboard = () => {
         </CardContent>
       </Card>
 
+      {/* Your Study Groups */}
+      {myGroups.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Study Groups</CardTitle>
+            <CardDescription>
+              {myGroups.some(group => group.unread_count > 0)
+                ? 'Catch up on what you missed'
+                : "You're all caught up"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+              {myGroups.slice(0, 6).map((group) => (
+                <Link
+                  key={group.group_id}
+                  to={`/groups/${group.group_id}`}
+                  className="flex items-center justify-between p-3 rounded-lg border hover:bg-muted/50 transition-colors"
+                >
+                  <span className="font-medium truncate">{group.group_name}</span>
+                  {group.unread_count > 0 ? (
+                    <Badge variant="destructive">
+                      {group.unread_count > 99 ? '99+' : group.unread_count} new
+                    </Badge>
+                  ) : (
+                    <MessageCircle className="h-4 w-4 text-muted-foreground" />
+                  )}
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Upcoming Sessions */}
+      {upcomingSessions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Upcoming Sessions</CardTitle>
+            <CardDescription>Study sessions planned in your groups</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {upcomingSessions.map((session) => {
+                const myStatus = session.rsvps.find(rsvp => rsvp.user_id === user?.id)?.status;
+                return (
+                  <Link
+                    key={session.id}
+                    id={`session-${session.id}`}
+                    to={`/groups/${session.group_id}`}
+                    className={`flex items-center gap-3 p-3 rounded-lg border hover:bg-muted/50 transition-colors ${session.id === highlightSessionId ? 'ring-2 ring-primary' : ''}`}
+                  >
+                    <CalendarDays className="h-5 w-5 text-primary shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{session.title}</p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {formatSessionTime(session)} · {session.group?.name}
+                      </p>
+                    </div>
+                    <Badge variant={myStatus === 'going' ? 'default' : 'outline'}>
+                      {myStatus ? RSVP_LABELS[myStatus] : 'RSVP'}
+                    </Badge>
+                  </Link>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Recent Questions */}
         <Card>
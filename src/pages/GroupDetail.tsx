@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,8 +9,38 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { Users, Send, ArrowLeft, Settings } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Users, Send, ArrowLeft, Settings, Paperclip, LogOut, X, CalendarDays, Loader2, FileText } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { formatTypingUsers, useGroupChannel } from '@/hooks/useGroupChannel';
+import FileUpload from '@/components/FileUpload';
+import ChatMessage from '@/components/ChatMessage';
+import GroupSettingsDialog, { GroupRole } from '@/components/GroupSettingsDialog';
+import GroupSessions from '@/components/GroupSessions';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { joinGroup, joinGroupMessage, markGroupRead } from '@/lib/groups';
+import {
+  ChatMessageData,
+  fetchMessagesAfter,
+  fetchMessagesBefore,
+  fetchMessagesFromDate,
+  formatDayLabel,
+  isSameDay,
+  MessageReaction,
+} from '@/lib/chat';
+import { buildObjectPath, CHAT_ATTACHMENTS_BUCKET, removeFile, uploadWithProgress } from '@/lib/storage';
 
 interface StudyGroup {
   id: string;
@@ -18,11 +48,20 @@ interface StudyGroup {
   description: string;
   privacy: string;
   max_members: number;
+  member_count: number;
   creator_id: string;
   subject: { name: string; code: string };
   creator_profile: { full_name: string; avatar_url?: string };
 }
 
+type SenderProfile = ChatMessageData['profile'];
+
+type PendingScroll =
+  | { type: 'bottom' }
+  | { type: 'top' }
+  // Distance from the bottom to keep when older messages are prepended
+  | { type: 'preserve'; fromBottom: number };
+
 interface GroupMember {
   id: string;
   user_id: string;
@@ -31,41 +70,114 @@ interface GroupMember {
   profile: { full_name: string; avatar_url?: string };
 }
 
-interface Message {
-  id: string;
-  content: string;
-  message_type: string;
-  created_at: string;
-  user_id: string;
-  profile: { full_name: string; avatar_url?: string };
-}
-
 const GroupDetail = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [group, setGroup] = useState<StudyGroup | null>(null);
   const [members, setMembers] = useState<GroupMember[]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessageData[]>([]);
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+  const [replyingTo, setReplyingTo] = useState<ChatMessageData | null>(null);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [showAttach, setShowAttach] = useState(false);
+  const [pasteProgress, setPasteProgress] = useState<number | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [joining, setJoining] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  const [jumpOpen, setJumpOpen] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const topSentinelRef = useRef<HTMLDivElement>(null);
+  const pendingScrollRef = useRef<PendingScroll | null>(null);
+  // Read by the realtime handler, which would otherwise see stale state
+  const hasNewerRef = useRef(false);
+  // Profiles of members and past senders, so live messages render at once
+  const profileCacheRef = useRef(new Map<string, SenderProfile>());
+
+  // Where the user had read up to when they opened the chat, for the "new
+  // messages" divider. Kept fixed while they read.
+  const [lastReadAt, setLastReadAt] = useState<string | null>(null);
+  const lastMarkedAtRef = useRef<string | null>(null);
+  const markReadTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const currentRole = (members.find(member => member.user_id === user?.id)?.role ?? null) as GroupRole | null;
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  useEffect(() => {
+    hasNewerRef.current = hasNewer;
+  }, [hasNewer]);
 
   useEffect(() => {
-    scrollToBottom();
+    lastMarkedAtRef.current = null;
+    setLastReadAt(null);
+    if (!id || !user) return;
+
+    supabase
+      .from('group_read_state')
+      .select('last_read_at')
+      .eq('group_id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching read state:', error);
+          return;
+        }
+        if (data) {
+          lastMarkedAtRef.current = data.last_read_at;
+          setLastReadAt(data.last_read_at);
+        }
+      });
+  }, [id, user]);
+
+  // New messages can be the ones the user is looking at
+  useEffect(() => {
+    scheduleMarkRead();
+    return () => clearTimeout(markReadTimeoutRef.current);
+  }, [messages, currentRole]);
+
+  // Apply the scroll position requested by whatever last changed the list,
+  // before paint so prepending older messages doesn't make the chat jump
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    const pending = pendingScrollRef.current;
+    if (!container || !pending) return;
+
+    pendingScrollRef.current = null;
+    if (pending.type === 'bottom') {
+      container.scrollTop = container.scrollHeight;
+    } else if (pending.type === 'top') {
+      container.scrollTop = 0;
+    } else {
+      container.scrollTop = container.scrollHeight - pending.fromBottom;
+    }
   }, [messages]);
 
+  // Load older messages when the top of the chat scrolls into view
+  useEffect(() => {
+    const sentinel = topSentinelRef.current;
+    if (!sentinel || !hasOlder) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !loadingOlder) {
+        loadOlderMessages();
+      }
+    }, { root: scrollRef.current, rootMargin: '100px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasOlder, loadingOlder, messages.length]);
+
   useEffect(() => {
     if (id) {
       fetchGroupDetails();
       fetchMembers();
       fetchMessages();
-      subscribeToMessages();
     }
   }, [id]);
 
@@ -79,37 +191,21 @@ const GroupDetail = () => {
           description,
           privacy,
           max_members,
+          member_count,
           creator_id,
-          subject_id,
-          created_at,
-          updated_at
+          subject:subjects (name, code),
+          creator_profile:profiles!study_groups_creator_id_profiles_fkey (full_name, avatar_url)
         `)
         .eq('id', id)
         .single();
 
       if (groupError) throw groupError;
 
-      if (groupData) {
-        // Fetch subject and creator profile separately
-        const [subjectRes, profileRes] = await Promise.all([
-          supabase
-            .from('subjects')
-            .select('name, code')
-            .eq('id', groupData.subject_id)
-            .single(),
-          supabase
-            .from('profiles')
-            .select('full_name, avatar_url')
-            .eq('user_id', groupData.creator_id)
-            .single()
-        ]);
-
-        setGroup({
-          ...groupData,
-          subject: subjectRes.data || { name: 'Unknown Subject', code: 'N/A' },
-          creator_profile: profileRes.data || { full_name: 'Unknown User', avatar_url: null }
-        });
-      }
+      setGroup({
+        ...groupData,
+        subject: groupData.subject || { name: 'Unknown Subject', code: 'N/A' },
+        creator_profile: groupData.creator_profile || { full_name: 'Unknown User', avatar_url: null }
+      });
     } catch (error) {
       console.error('Error fetching group:', error);
       toast({
@@ -129,84 +225,89 @@ const GroupDetail = () => {
           user_id,
           role,
           joined_at,
-          group_id
+          profile:profiles (full_name, avatar_url)
         `)
         .eq('group_id', id)
         .order('joined_at', { ascending: true });
 
       if (error) throw error;
 
-      if (data) {
-        // Fetch profiles separately to avoid relation issues
-        const userIds = data.map(member => member.user_id);
-        const { data: profiles, error: profilesError } = await supabase
-          .from('profiles')
-          .select('user_id, full_name, avatar_url')
-          .in('user_id', userIds);
-
-        if (profilesError) {
-          console.error('Error fetching profiles:', profilesError);
-          return;
-        }
+      const membersWithProfiles = (data || []).map(member => ({
+        ...member,
+        profile: member.profile || { full_name: 'Unknown User', avatar_url: null }
+      }));
+      cacheProfiles(membersWithProfiles);
+      setMembers(membersWithProfiles);
+    } catch (error) {
+      console.error('Error fetching members:', error);
+    }
+  };
 
-        const membersWithProfiles = data.map(member => ({
-          ...member,
-          profile: profiles?.find(p => p.user_id === member.user_id) || { 
-            full_name: 'Unknown User', 
-            avatar_url: null 
-          }
-        }));
+  const handleJoin = async () => {
+    if (!user || !group) return;
 
-        setMembers(membersWithProfiles);
-      }
+    setJoining(true);
+    try {
+      const status = await joinGroup(group.id);
+      toast({
+        title: status === 'requested' ? "Request sent" : "Success",
+        description: joinGroupMessage(status, group.name),
+      });
+      fetchGroupDetails();
+      fetchMembers();
+      fetchMessages();
     } catch (error) {
-      console.error('Error fetching members:', error);
+      console.error('Error joining group:', error);
+      toast({
+        title: "Couldn't join group",
+        description: (error as { message?: string })?.message || "Failed to join the group",
+        variant: "destructive",
+      });
+    } finally {
+      setJoining(false);
     }
   };
 
-  const fetchMessages = async () => {
+  const leaveGroup = async () => {
+    if (!user) return;
+
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          id,
-          content,
-          message_type,
-          created_at,
-          user_id,
-          group_id,
-          file_url,
-          file_name
-        `)
+      const { error } = await supabase
+        .from('group_members')
+        .delete()
         .eq('group_id', id)
-        .order('created_at', { ascending: true })
-        .limit(50);
+        .eq('user_id', user.id);
 
       if (error) throw error;
 
-      if (data) {
-        // Fetch profiles separately to avoid relation issues
-        const userIds = [...new Set(data.map(message => message.user_id))];
-        const { data: profiles, error: profilesError } = await supabase
-          .from('profiles')
-          .select('user_id, full_name, avatar_url')
-          .in('user_id', userIds);
-
-        if (profilesError) {
-          console.error('Error fetching profiles:', profilesError);
-          return;
-        }
+      toast({
+        title: "Success",
+        description: `You left ${group?.name}`,
+      });
+      navigate('/groups');
+    } catch (error) {
+      console.error('Error leaving group:', error);
+      toast({
+        title: "Error",
+        description: "Failed to leave the group",
+        variant: "destructive",
+      });
+    }
+  };
 
-        const messagesWithProfiles = data.map(message => ({
-          ...message,
-          profile: profiles?.find(p => p.user_id === message.user_id) || {
-            full_name: 'Unknown User',
-            avatar_url: null
-          }
-        }));
+  // Starts the chat at the latest messages
+  const fetchMessages = async () => {
+    if (!id) return;
 
-        setMessages(messagesWithProfiles);
-      }
+    try {
+      const page = await fetchMessagesBefore(id);
+      cacheProfiles(page.messages);
+      pendingScrollRef.current = { type: 'bottom' };
+      setMessages(page.messages);
+      setHasOlder(page.hasMore);
+      setHasNewer(false);
+      setReactions([]);
+      fetchReactions(page.messages.map(message => message.id));
     } catch (error) {
       console.error('Error fetching messages:', error);
     } finally {
@@ -214,43 +315,187 @@ const GroupDetail = () => {
     }
   };
 
-  const subscribeToMessages = () => {
-    const channel = supabase
-      .channel('group-messages')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `group_id=eq.${id}`
-        },
-        async (payload) => {
-          // Fetch the profile for the new message
-          const { data: profile, error: profileError } = await supabase
-            .from('profiles')
-            .select('full_name, avatar_url')
-            .eq('user_id', payload.new.user_id)
-            .single();
-
-          if (profileError) {
-            console.error('Error fetching profile for new message:', profileError);
-            return;
-          }
-
-          setMessages(prev => [...prev, {
-            ...payload.new as any,
-            profile: profile || { full_name: 'Unknown User', avatar_url: null }
-          } as Message]);
-        }
-      )
-      .subscribe();
+  const loadOlderMessages = async () => {
+    const oldest = messages[0];
+    if (!id || !oldest || loadingOlder) return;
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagesBefore(id, oldest);
+      cacheProfiles(page.messages);
+      const container = scrollRef.current;
+      if (container) {
+        pendingScrollRef.current = { type: 'preserve', fromBottom: container.scrollHeight - container.scrollTop };
+      }
+      setMessages(prev => [...page.messages, ...prev]);
+      setHasOlder(page.hasMore);
+      fetchReactions(page.messages.map(message => message.id));
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
   };
 
+  const loadNewerMessages = async () => {
+    const newest = messages[messages.length - 1];
+    if (!id || !newest || loadingNewer) return;
+
+    setLoadingNewer(true);
+    try {
+      const page = await fetchMessagesAfter(id, newest);
+      cacheProfiles(page.messages);
+      setMessages(prev => [...prev, ...page.messages]);
+      setHasNewer(page.hasMore);
+      fetchReactions(page.messages.map(message => message.id));
+    } catch (error) {
+      console.error('Error loading newer messages:', error);
+    } finally {
+      setLoadingNewer(false);
+    }
+  };
+
+  // Shows history from the start of the chosen day. Newer pages load on
+  // demand, and live messages are held back until the user catches up.
+  const jumpToDate = async (date: Date | undefined) => {
+    if (!id || !date) return;
+    setJumpOpen(false);
+
+    try {
+      const page = await fetchMessagesFromDate(id, date);
+      cacheProfiles(page.messages);
+      if (page.messages.length === 0) {
+        toast({
+          title: "No messages",
+          description: `Nothing was posted on or after ${date.toLocaleDateString()}`,
+        });
+        return;
+      }
+
+      pendingScrollRef.current = { type: 'top' };
+      setMessages(page.messages);
+      setHasOlder(true);
+      setHasNewer(page.hasMore);
+      setReactions([]);
+      fetchReactions(page.messages.map(message => message.id));
+    } catch (error) {
+      console.error('Error jumping to date:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load messages for that day",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchReactions = async (messageIds: string[]) => {
+    if (messageIds.length === 0) {
+      setReactions([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .select('id, message_id, user_id, emoji')
+      .in('message_id', messageIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching reactions:', error);
+      return;
+    }
+    setReactions(prev => [
+      ...prev.filter(reaction => !messageIds.includes(reaction.message_id)),
+      ...(data || [])
+    ]);
+  };
+
+  // Marks the newest message scrolled fully into view as read, once the
+  // scrolling settles. Only moves forward, like the RPC itself.
+  const scheduleMarkRead = () => {
+    clearTimeout(markReadTimeoutRef.current);
+    markReadTimeoutRef.current = setTimeout(() => {
+      const container = scrollRef.current;
+      if (!container || !id || !currentRole || document.visibilityState !== 'visible') return;
+
+      const visibleBottom = container.scrollTop + container.clientHeight;
+      const lastVisible = [...messages].reverse().find(message => {
+        const element = document.getElementById(`message-${message.id}`);
+        return element && element.offsetTop + element.offsetHeight <= visibleBottom + 8;
+      });
+
+      if (!lastVisible) return;
+      if (lastMarkedAtRef.current && new Date(lastVisible.created_at) <= new Date(lastMarkedAtRef.current)) return;
+
+      lastMarkedAtRef.current = lastVisible.created_at;
+      markGroupRead(id, lastVisible.id).catch(error => console.error('Error marking messages read:', error));
+    }, 500);
+  };
+
+  const cacheProfiles = (entries: { user_id: string; profile: SenderProfile }[]) => {
+    entries.forEach(entry => profileCacheRef.current.set(entry.user_id, entry.profile));
+  };
+
+  // Senders are almost always members, whose profiles are already cached
+  const getSenderProfile = async (senderId: string): Promise<SenderProfile> => {
+    const cached = profileCacheRef.current.get(senderId);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('full_name, avatar_url')
+      .eq('user_id', senderId)
+      .single();
+
+    if (error) console.error('Error fetching profile for new message:', error);
+    const profile = data || { full_name: 'Unknown User', avatar_url: null };
+    profileCacheRef.current.set(senderId, profile);
+    return profile;
+  };
+
+  const memberNames = useMemo(
+    () => new Map(members.map(member => [member.user_id, member.profile.full_name || 'Someone'])),
+    [members]
+  );
+
+  const { onlineUserIds, typingUsers, sendTyping } = useGroupChannel({
+    groupId: id,
+    userId: currentRole ? user?.id : undefined,
+    memberNames,
+    onMessageInsert: async (row) => {
+      // While reading older history the new message isn't contiguous with
+      // what's loaded; it arrives when the user catches up
+      if (hasNewerRef.current) return;
+
+      const profile = await getSenderProfile(row.user_id);
+      const container = scrollRef.current;
+      if (container && container.scrollHeight - container.scrollTop - container.clientHeight < 150) {
+        pendingScrollRef.current = { type: 'bottom' };
+      }
+
+      setMessages(prev => prev.some(message => message.id === row.id) ? prev : [...prev, {
+        ...row,
+        message_type: row.message_type ?? 'text',
+        profile
+      }]);
+    },
+    onMessageUpdate: (row) => {
+      // Edits and deletes keep the sender's profile we already have
+      setMessages(prev => prev.map(message =>
+        message.id === row.id ? { ...message, ...row, message_type: row.message_type ?? 'text' } : message
+      ));
+      if (row.deleted_at) {
+        setReactions(prev => prev.filter(reaction => reaction.message_id !== row.id));
+      }
+    },
+    onReactionInsert: (reaction) => {
+      setReactions(prev => prev.some(r => r.id === reaction.id) ? prev : [...prev, reaction]);
+    },
+    onReactionDelete: (reactionId) => {
+      setReactions(prev => prev.filter(reaction => reaction.id !== reactionId));
+    },
+  });
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || !user || sending) return;
@@ -263,11 +508,15 @@ const GroupDetail = () => {
           group_id: id,
           user_id: user.id,
           content: newMessage.trim(),
-          message_type: 'text'
+          message_type: 'text',
+          reply_to_id: replyingTo?.id ?? null
         }]);
 
       if (error) throw error;
       setNewMessage('');
+      setReplyingTo(null);
+      // Sending from older history returns to the live conversation
+      if (hasNewer) fetchMessages();
     } catch (error) {
       console.error('Error sending message:', error);
       toast({
@@ -280,13 +529,144 @@ const GroupDetail = () => {
     }
   };
 
-  const formatTime = (timestamp: string) => {
-    return new Date(timestamp).toLocaleTimeString([], {
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+  // Uploads into <group_id>/<user_id>/ and posts a file message, using any
+  // typed text as the caption. Returns the object path for FileUpload.
+  const sendAttachment = async (file: File, onProgress: (percent: number) => void): Promise<string> => {
+    if (!user || !id) throw new Error('You must be signed in to share files');
+
+    const path = await uploadWithProgress(
+      CHAT_ATTACHMENTS_BUCKET,
+      buildObjectPath([id, user.id], file),
+      file,
+      onProgress
+    );
+
+    const caption = newMessage.trim();
+    const { error } = await supabase
+      .from('messages')
+      .insert([{
+        group_id: id,
+        user_id: user.id,
+        content: caption || file.name,
+        message_type: 'file',
+        file_url: path,
+        file_name: file.name,
+        file_type: file.type || null,
+        file_size: file.size
+      }]);
+
+    if (error) {
+      removeFile(CHAT_ATTACHMENTS_BUCKET, path).catch(removeError =>
+        console.error('Error removing uploaded file:', removeError)
+      );
+      throw error;
+    }
+
+    if (caption) setNewMessage('');
+    return path;
+  };
+
+  const handlePaste = async (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const image = Array.from(e.clipboardData.files).find(file => file.type.startsWith('image/'));
+    if (!image || pasteProgress !== null) return;
+
+    e.preventDefault();
+    if (image.size > 10 * 1024 * 1024) {
+      toast({
+        title: "File too large",
+        description: "Maximum file size is 10MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPasteProgress(0);
+    try {
+      // Clipboard images are all called image.png, so give them a unique name
+      const extension = image.type.split('/')[1] || 'png';
+      const named = new File([image], `pasted-image-${Date.now()}.${extension}`, { type: image.type });
+      await sendAttachment(named, setPasteProgress);
+    } catch (error) {
+      console.error('Error sending pasted image:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send image",
+        variant: "destructive",
+      });
+    } finally {
+      setPasteProgress(null);
+    }
+  };
+
+  const editMessage = async (message: ChatMessageData, content: string) => {
+    const { error } = await supabase
+      .from('messages')
+      .update({ content })
+      .eq('id', message.id);
+
+    if (error) {
+      console.error('Error editing message:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to edit message",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  // The delete trigger blanks the message and stamps deleted_at itself
+  const deleteMessage = async (message: ChatMessageData) => {
+    const { error } = await supabase
+      .from('messages')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', message.id);
+
+    if (error) {
+      console.error('Error deleting message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete message",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (replyingTo?.id === message.id) setReplyingTo(null);
+  };
+
+  const toggleReaction = async (message: ChatMessageData, emoji: string) => {
+    if (!user || !id) return;
+
+    const existing = reactions.find(r =>
+      r.message_id === message.id && r.user_id === user.id && r.emoji === emoji
+    );
+
+    const { error } = existing
+      ? await supabase.from('message_reactions').delete().eq('id', existing.id)
+      : await supabase.from('message_reactions').insert([{
+          message_id: message.id,
+          group_id: id,
+          user_id: user.id,
+          emoji
+        }]);
+
+    if (error) {
+      console.error('Error updating reaction:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update reaction",
+        variant: "destructive",
+      });
+    }
   };
 
+  const readMarker = lastReadAt ?? members.find(member => member.user_id === user?.id)?.joined_at;
+  const firstUnreadId = readMarker
+    ? messages.find(message =>
+        message.user_id !== user?.id && !message.deleted_at && new Date(message.created_at) > new Date(readMarker)
+      )?.id
+    : undefined;
+
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
@@ -334,8 +714,8 @@ const GroupDetail = () => {
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>{group.name}</span>
-                {group.creator_id === user?.id && (
-                  <Button variant="ghost" size="sm">
+                {(currentRole === 'admin' || currentRole === 'moderator') && (
+                  <Button variant="ghost" size="sm" onClick={() => setSettingsOpen(true)} aria-label="Group settings">
                     <Settings className="h-4 w-4" />
                   </Button>
                 )}
@@ -355,9 +735,32 @@ const GroupDetail = () => {
 
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <Users className="h-4 w-4" />
-                <span>{members.length} / {group.max_members} members</span>
+                <span>{group.member_count} / {group.max_members} members</span>
               </div>
 
+              {user && !currentRole && (
+                <Button
+                  className="w-full"
+                  onClick={handleJoin}
+                  disabled={joining || group.member_count >= group.max_members}
+                >
+                  {group.member_count >= group.max_members
+                    ? 'Group is full'
+                    : group.privacy === 'private'
+                      ? 'Request to Join'
+                      : group.privacy === 'invite_only' ? 'Accept Invitation' : 'Join Group'}
+                </Button>
+              )}
+
+              {currentRole && (
+                <Button asChild variant="outline" className="w-full">
+                  <Link to={`/groups/${group.id}/notes`}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Shared Notes
+                  </Link>
+                </Button>
+              )}
+
               <div>
                 <p className="text-sm font-medium mb-2">Created by:</p>
                 <div className="flex items-center gap-2">
@@ -373,22 +776,44 @@ const GroupDetail = () => {
             </CardContent>
           </Card>
 
+          <GroupSessions
+            groupId={group.id}
+            currentUserId={user?.id}
+            isMember={!!currentRole}
+            canManage={currentRole === 'admin' || currentRole === 'moderator'}
+          />
+
           {/* Members */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-base">Members</CardTitle>
+              <CardTitle className="text-base flex items-center justify-between">
+                <span>Members</span>
+                {onlineUserIds.size > 0 && (
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {members.filter(member => onlineUserIds.has(member.user_id)).length} online
+                  </span>
+                )}
+              </CardTitle>
             </CardHeader>
             <CardContent>
               <ScrollArea className="h-64">
                 <div className="space-y-2">
                   {members.map((member) => (
                     <div key={member.id} className="flex items-center gap-2">
-                      <Avatar className="h-8 w-8">
-                        <AvatarImage src={member.profile.avatar_url} />
-                        <AvatarFallback className="text-xs">
-                          {getInitials(member.profile.full_name)}
-                        </AvatarFallback>
-                      </Avatar>
+                      <div className="relative">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={member.profile.avatar_url} />
+                          <AvatarFallback className="text-xs">
+                            {getInitials(member.profile.full_name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        {onlineUserIds.has(member.user_id) && (
+                          <span
+                            className="absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full bg-success ring-2 ring-background"
+                            title="Online"
+                          />
+                        )}
+                      </div>
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium truncate">
                           {member.profile.full_name}
@@ -401,6 +826,28 @@ const GroupDetail = () => {
                   ))}
                 </div>
               </ScrollArea>
+              {currentRole && group.creator_id !== user?.id && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" className="w-full mt-4 text-destructive hover:text-destructive">
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Leave Group
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Leave {group.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        You will lose access to the group chat until you join again.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={leaveGroup}>Leave</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -409,54 +856,138 @@ const GroupDetail = () => {
         <div className="lg:col-span-3">
           <Card className="h-[600px] flex flex-col">
             <CardHeader>
-              <CardTitle className="text-lg">Group Chat</CardTitle>
+              <CardTitle className="text-lg flex items-center justify-between">
+                <span>Group Chat</span>
+                {currentRole && (
+                  <Popover open={jumpOpen} onOpenChange={setJumpOpen}>
+                    <PopoverTrigger asChild>
+                      <Button variant="ghost" size="sm" className="gap-2 font-normal">
+                        <CalendarDays className="h-4 w-4" />
+                        Jump to date
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="end">
+                      <Calendar
+                        mode="single"
+                        onSelect={jumpToDate}
+                        disabled={{ after: new Date() }}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                )}
+              </CardTitle>
             </CardHeader>
-            <CardContent className="flex-1 flex flex-col p-0">
+            <CardContent className="flex-1 min-h-0 flex flex-col p-0">
               {/* Messages */}
-              <ScrollArea className="flex-1 p-4">
+              <div ref={scrollRef} onScroll={scheduleMarkRead} className="relative flex-1 min-h-0 overflow-y-auto p-4">
                 <div className="space-y-4">
+                  <div ref={topSentinelRef} />
+                  {hasOlder && (
+                    <div className="flex justify-center">
+                      <Button variant="ghost" size="sm" onClick={loadOlderMessages} disabled={loadingOlder}>
+                        {loadingOlder ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Load older messages'}
+                      </Button>
+                    </div>
+                  )}
                   {messages.length === 0 ? (
                     <div className="text-center text-muted-foreground py-8">
                       <p>No messages yet. Start the conversation!</p>
                     </div>
                   ) : (
-                    messages.map((message) => (
-                      <div key={message.id} className="flex gap-3">
-                        <Avatar className="h-8 w-8 mt-1">
-                          <AvatarImage src={message.profile.avatar_url} />
-                          <AvatarFallback className="text-xs">
-                            {getInitials(message.profile.full_name)}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 mb-1">
-                            <span className="text-sm font-medium">
-                              {message.profile.full_name}
-                            </span>
-                            <span className="text-xs text-muted-foreground">
-                              {formatTime(message.created_at)}
+                    messages.map((message, index) => (
+                      <React.Fragment key={message.id}>
+                        {(index === 0 || !isSameDay(messages[index - 1].created_at, message.created_at)) && (
+                          <div className="flex items-center gap-3">
+                            <Separator className="flex-1" />
+                            <span className="text-xs font-medium text-muted-foreground">
+                              {formatDayLabel(message.created_at)}
                             </span>
+                            <Separator className="flex-1" />
                           </div>
-                          <p className="text-sm text-foreground break-words">
-                            {message.content}
-                          </p>
-                        </div>
-                      </div>
+                        )}
+                        {message.id === firstUnreadId && (
+                          <div className="flex items-center gap-3">
+                            <Separator className="flex-1 bg-destructive" />
+                            <span className="text-xs font-medium text-destructive">New messages</span>
+                            <Separator className="flex-1 bg-destructive" />
+                          </div>
+                        )}
+                        <ChatMessage
+                          message={message}
+                          replyTo={messages.find(m => m.id === message.reply_to_id)}
+                          reactions={reactions.filter(r => r.message_id === message.id)}
+                          currentUserId={user?.id}
+                          canModerate={currentRole === 'admin' || currentRole === 'moderator'}
+                          onReply={setReplyingTo}
+                          onEdit={editMessage}
+                          onDelete={deleteMessage}
+                          onToggleReaction={toggleReaction}
+                        />
+                      </React.Fragment>
                     ))
                   )}
-                  <div ref={messagesEndRef} />
+                  {hasNewer && (
+                    <div className="flex justify-center gap-2">
+                      <Button variant="outline" size="sm" onClick={loadNewerMessages} disabled={loadingNewer}>
+                        {loadingNewer ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Load newer messages'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={fetchMessages}>
+                        Jump to latest
+                      </Button>
+                    </div>
+                  )}
                 </div>
-              </ScrollArea>
+              </div>
 
               <Separator />
 
               {/* Message Input */}
-              <div className="p-4">
+              <div className="p-4 space-y-3">
+                {showAttach && (
+                  <FileUpload
+                    onFileUpload={sendAttachment}
+                    acceptedTypes={['.pdf', '.doc', '.docx', '.ppt', '.pptx', '.txt', '.jpg', '.jpeg', '.png', '.gif', '.webp']}
+                    maxSize={10}
+                    multiple
+                  />
+                )}
+                {pasteProgress !== null && (
+                  <div className="space-y-1">
+                    <Progress value={pasteProgress} className="h-2" />
+                    <p className="text-xs text-muted-foreground">Sending image... {pasteProgress}%</p>
+                  </div>
+                )}
+                {typingUsers.length > 0 && (
+                  <p className="text-xs italic text-muted-foreground">{formatTypingUsers(typingUsers)}</p>
+                )}
+                {replyingTo && (
+                  <div className="flex items-center gap-2 border-l-2 border-primary pl-2 text-xs text-muted-foreground">
+                    <span className="flex-1 truncate">
+                      Replying to <span className="font-medium">{replyingTo.profile.full_name}</span>: {replyingTo.content}
+                    </span>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setReplyingTo(null)} aria-label="Cancel reply">
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
                 <form onSubmit={sendMessage} className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant={showAttach ? 'secondary' : 'ghost'}
+                    onClick={() => setShowAttach(prev => !prev)}
+                    aria-label="Attach files"
+                  >
+                    <Paperclip className="h-4 w-4" />
+                  </Button>
                   <Input
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
-                    placeholder="Type your message..."
+                    onChange={(e) => {
+                      setNewMessage(e.target.value);
+                      if (e.target.value) sendTyping();
+                    }}
+                    onPaste={handlePaste}
+                    placeholder="Type a message, or paste an image..."
                     disabled={sending}
                     className="flex-1"
                   />
@@ -469,6 +1000,18 @@ const GroupDetail = () => {
           </Card>
         </div>
       </div>
+
+      <GroupSettingsDialog
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        group={group}
+        members={members}
+        currentRole={currentRole}
+        onUpdated={() => {
+          fetchGroupDetails();
+          fetchMembers();
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Users, Mail } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { InvitePreview, inviteStatusMessage, previewGroupInvite, redeemGroupInvite } from '@/lib/groups';
+
+const GroupInvite = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  // Wait for the session so the preview reflects who is signed in
+  useEffect(() => {
+    if (token && !authLoading) {
+      fetchPreview();
+    }
+  }, [token, authLoading, user?.id]);
+
+  const fetchPreview = async () => {
+    setLoading(true);
+    try {
+      setPreview(await previewGroupInvite(token!));
+    } catch (error) {
+      console.error('Error fetching invite:', error);
+      setPreview(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!token || !preview) return;
+
+    setJoining(true);
+    try {
+      const groupId = await redeemGroupInvite(token);
+      toast({ title: "Success", description: `You joined ${preview.group_name}` });
+      navigate(`/groups/${groupId}`);
+    } catch (error) {
+      console.error('Error redeeming invite:', error);
+      toast({
+        title: "Couldn't join group",
+        description: (error as { message?: string })?.message || "Failed to join the group",
+        variant: "destructive",
+      });
+      fetchPreview();
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-md">
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-6 bg-gray-300 rounded w-2/3 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-full mb-2"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-md text-center">
+        <Mail className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <h1 className="text-2xl font-bold mb-2">Invite not found</h1>
+        <p className="text-muted-foreground mb-4">This invite link is not valid. Ask a group admin for a new one.</p>
+        <Button onClick={() => navigate('/groups')}>Browse Groups</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-md">
+      <Card>
+        <CardHeader>
+          <CardTitle>{preview.group_name}</CardTitle>
+          {preview.description && <CardDescription>{preview.description}</CardDescription>}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Users className="h-4 w-4" />
+            <span>{preview.member_count} / {preview.max_members} members</span>
+          </div>
+
+          <p className="text-sm">{inviteStatusMessage(preview.status)}</p>
+
+          {!user ? (
+            <Button className="w-full" onClick={() => navigate('/auth')}>
+              Log in to join
+            </Button>
+          ) : preview.status === 'already_member' ? (
+            <Button className="w-full" onClick={() => navigate(`/groups/${preview.group_id}`)}>
+              Open Group
+            </Button>
+          ) : preview.status === 'valid' ? (
+            <Button className="w-full" onClick={handleJoin} disabled={joining}>
+              {joining ? 'Joining...' : 'Join Group'}
+            </Button>
+          ) : (
+            <Button variant="outline" className="w-full" onClick={() => navigate('/groups')}>
+              Browse Groups
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GroupInvite;
@@ -0,0 +1,430 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, FileText, History, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import NoteDiff from '@/components/NoteDiff';
+import NoteHistoryDialog from '@/components/NoteHistoryDialog';
+import { GroupRole } from '@/components/GroupSettingsDialog';
+import {
+  createNote,
+  deleteNote,
+  fetchGroupNotes,
+  fetchNote,
+  GroupNote,
+  NoteRevision,
+  NoteSummary,
+  restoreNoteRevision,
+  saveNote,
+} from '@/lib/notes';
+
+const GroupNotes = () => {
+  const { id, noteId } = useParams<{ id: string; noteId?: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [groupName, setGroupName] = useState<string | null>(null);
+  const [role, setRole] = useState<GroupRole | null>(null);
+  const [notes, setNotes] = useState<NoteSummary[]>([]);
+  const [note, setNote] = useState<GroupNote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftContent, setDraftContent] = useState('');
+  // The revision the draft was started from, checked on save
+  const [baseRevision, setBaseRevision] = useState(0);
+  const [saving, setSaving] = useState(false);
+  // Set to the newer version when someone else saved first
+  const [conflict, setConflict] = useState<GroupNote | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  // Set when a note was just created, so it opens in the editor
+  const editOnLoadRef = useRef(false);
+
+  const dirty = editing && !!note && (draftTitle !== note.title || draftContent !== note.content);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (id && user) {
+      fetchGroup();
+    } else {
+      setLoading(false);
+    }
+  }, [id, user, authLoading]);
+
+  useEffect(() => {
+    setEditing(false);
+    setConflict(null);
+    if (noteId) {
+      loadNote(noteId);
+    } else {
+      setNote(null);
+    }
+  }, [noteId]);
+
+  // Browsers only show their own wording here, but it stops accidental loss
+  useEffect(() => {
+    if (!dirty) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [dirty]);
+
+  const fetchGroup = async () => {
+    try {
+      const [{ data: group }, { data: membership }] = await Promise.all([
+        supabase.from('study_groups').select('name').eq('id', id!).maybeSingle(),
+        supabase.from('group_members').select('role').eq('group_id', id!).eq('user_id', user!.id).maybeSingle(),
+      ]);
+
+      setGroupName(group?.name ?? null);
+      setRole((membership?.role ?? null) as GroupRole | null);
+      if (membership) {
+        await fetchNotes();
+      }
+    } catch (error) {
+      console.error('Error fetching group:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchNotes = async () => {
+    try {
+      setNotes(await fetchGroupNotes(id!));
+    } catch (error) {
+      console.error('Error fetching notes:', error);
+    }
+  };
+
+  const loadNote = async (targetId: string) => {
+    try {
+      const loaded = await fetchNote(targetId);
+      setNote(loaded);
+      if (loaded && editOnLoadRef.current) {
+        startEditing(loaded);
+      }
+    } catch (error) {
+      console.error('Error fetching note:', error);
+      setNote(null);
+    } finally {
+      editOnLoadRef.current = false;
+    }
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: (error as { message?: string })?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const startEditing = (from: GroupNote) => {
+    setDraftTitle(from.title);
+    setDraftContent(from.content);
+    setBaseRevision(from.current_revision);
+    setEditing(true);
+  };
+
+  const handleCreate = async () => {
+    if (!id || !user) return;
+    try {
+      const created = await createNote(id, user.id, 'Untitled note');
+      await fetchNotes();
+      editOnLoadRef.current = true;
+      navigate(`/groups/${id}/notes/${created.id}`);
+    } catch (error) {
+      showError(error, "Failed to create note");
+    }
+  };
+
+  const save = async (base = baseRevision) => {
+    if (!note) return;
+
+    setSaving(true);
+    try {
+      const result = await saveNote(note.id, base, draftTitle, draftContent);
+      const latest = await fetchNote(note.id);
+
+      if (result.status === 'conflict') {
+        setConflict(latest);
+        return;
+      }
+
+      setNote(latest);
+      setConflict(null);
+      setEditing(false);
+      fetchNotes();
+      if (result.status === 'saved') {
+        toast({ title: "Saved", description: `Revision ${result.revision} saved` });
+      }
+    } catch (error) {
+      showError(error, "Failed to save note");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const discardDraft = () => {
+    if (conflict) {
+      setNote(conflict);
+    }
+    setConflict(null);
+    setEditing(false);
+  };
+
+  const handleRestore = async (revision: NoteRevision) => {
+    if (!note) return;
+    try {
+      const result = await restoreNoteRevision(note.id, revision.revision, note.current_revision);
+      const latest = await fetchNote(note.id);
+      setNote(latest);
+      fetchNotes();
+
+      if (result.status === 'conflict') {
+        toast({
+          title: "Note changed",
+          description: "Someone saved a newer version. Review it before restoring.",
+          variant: "destructive",
+        });
+      } else if (result.status === 'saved') {
+        toast({ title: "Restored", description: `Revision ${revision.revision} restored as revision ${result.revision}` });
+        setHistoryOpen(false);
+      }
+    } catch (error) {
+      showError(error, "Failed to restore revision");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!note) return;
+    try {
+      await deleteNote(note.id);
+      setNotes(current => current.filter(n => n.id !== note.id));
+      navigate(`/groups/${id}/notes`);
+    } catch (error) {
+      showError(error, "Failed to delete note");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!groupName || !role) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-foreground mb-4">Notes are only available to group members</h2>
+          <Link to={id ? `/groups/${id}` : '/groups'}>
+            <Button>Back to Group</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const canDelete = !!note && (note.created_by === user?.id || role === 'admin' || role === 'moderator');
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center gap-4 mb-6">
+        <Link to={`/groups/${id}`}>
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to {groupName}
+          </Button>
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center justify-between">
+              <span>Shared Notes</span>
+              <Button variant="ghost" size="sm" onClick={handleCreate} aria-label="New note">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {notes.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No notes yet.</p>
+            ) : (
+              <ScrollArea className="h-[500px]">
+                <div className="space-y-1">
+                  {notes.map((item) => (
+                    <Link
+                      key={item.id}
+                      to={`/groups/${id}/notes/${item.id}`}
+                      className={`block rounded-md px-3 py-2 ${item.id === noteId ? 'bg-accent' : 'hover:bg-accent/50'}`}
+                    >
+                      <p className="text-sm font-medium truncate">{item.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {item.editor?.full_name || 'Unknown User'} · {new Date(item.updated_at).toLocaleDateString()}
+                      </p>
+                    </Link>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          {!note ? (
+            <CardContent className="flex flex-col items-center justify-center min-h-[400px] text-center">
+              <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground mb-4">
+                {noteId ? 'This note no longer exists.' : 'Pick a note or start a new one for the group.'}
+              </p>
+              <Button onClick={handleCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Note
+              </Button>
+            </CardContent>
+          ) : editing ? (
+            <>
+              <CardHeader>
+                <Input
+                  value={draftTitle}
+                  maxLength={200}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  className="text-lg font-semibold"
+                  aria-label="Note title"
+                />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Textarea
+                  value={draftContent}
+                  onChange={(e) => setDraftContent(e.target.value)}
+                  className="min-h-[420px] font-mono text-sm"
+                  placeholder="Write in markdown..."
+                  aria-label="Note content"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                    Cancel
+                  </Button>
+                  <Button onClick={() => save()} disabled={saving || !draftTitle.trim()}>
+                    {saving ? 'Saving...' : 'Save'}
+                  </Button>
+                </div>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <span className="flex-1 min-w-0 break-words">{note.title}</span>
+                  <Button variant="ghost" size="sm" onClick={() => setHistoryOpen(true)} aria-label="History">
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(note)} aria-label="Edit note">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  {canDelete && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setConfirmDelete(true)}
+                      aria-label="Delete note"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  Revision {note.current_revision} · updated {new Date(note.updated_at).toLocaleString()}
+                </p>
+              </CardHeader>
+              <CardContent>
+                {note.content ? (
+                  <div className="text-sm text-foreground whitespace-pre-wrap break-words">{note.content}</div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">This note is empty.</p>
+                )}
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+
+      {note && (
+        <NoteHistoryDialog
+          note={note}
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          onRestore={handleRestore}
+        />
+      )}
+
+      <Dialog open={!!conflict} onOpenChange={(open) => !open && setConflict(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Someone else saved this note</DialogTitle>
+            <DialogDescription>
+              Revision {conflict?.current_revision} was saved while you were editing revision {baseRevision}.
+              Below is how your draft differs from it.
+            </DialogDescription>
+          </DialogHeader>
+          {conflict && (
+            <ScrollArea className="h-[24rem]">
+              <NoteDiff oldText={conflict.content} newText={draftContent} />
+            </ScrollArea>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setConflict(null)}>Keep Editing</Button>
+            <Button variant="outline" onClick={discardDraft}>Discard My Changes</Button>
+            <Button onClick={() => conflict && save(conflict.current_revision)} disabled={saving}>
+              Save Mine Anyway
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {note?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The note and all of its revisions will be removed for everyone in the group.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default GroupNotes;
@@ -0,0 +1,153 @@
+import { useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Bell, CheckCheck, Loader2 } from "lucide-react";
+import {
+  AppNotification,
+  useMarkNotificationsRead,
+  useNotificationFeed,
+  useUnreadNotificationCount,
+} from "@/hooks/useNotifications";
+import { getNotificationLink } from "@/lib/notifications";
+
+export default function Notifications() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const unreadOnly = searchParams.get('filter') === 'unread';
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useNotificationFeed(unreadOnly);
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  const markRead = useMarkNotificationsRead();
+  const notifications = data?.pages.flat() ?? [];
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page when the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.is_read) {
+      markRead([notification.id]);
+    }
+    const link = getNotificationLink(notification.type, notification.related_id);
+    if (link) navigate(link);
+  };
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center">
+        <p className="text-muted-foreground mb-4">Please log in to see your notifications.</p>
+        <Button onClick={() => navigate('/auth')}>Log In</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Notifications</h1>
+          <p className="text-muted-foreground">{unreadCount} unread</p>
+        </div>
+        <Button variant="outline" onClick={() => markRead()} disabled={unreadCount === 0} className="gap-2">
+          <CheckCheck className="h-4 w-4" />
+          Mark all as read
+        </Button>
+      </div>
+
+      <Tabs
+        value={unreadOnly ? 'unread' : 'all'}
+        onValueChange={(value) => setSearchParams(value === 'unread' ? { filter: 'unread' } : {})}
+        className="mb-4"
+      >
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="unread">Unread</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-4">
+                <div className="h-4 bg-gray-300 rounded w-1/2 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : notifications.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Bell className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              {unreadOnly ? "You're all caught up." : "No notifications yet."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {notifications.map(notification => (
+            <Card
+              key={notification.id}
+              className={`cursor-pointer transition-colors hover:shadow-md ${
+                notification.is_read ? '' : 'bg-primary/5 border-primary/20'
+              }`}
+              onClick={() => openNotification(notification)}
+            >
+              <CardContent className="p-4 flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <h3 className={`text-sm ${notification.is_read ? '' : 'font-medium'}`}>
+                    {notification.title}
+                  </h3>
+                  <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{notification.message}</p>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {new Date(notification.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {notification.event_count > 1 && (
+                    <Badge variant="secondary">{notification.event_count}</Badge>
+                  )}
+                  {!notification.is_read && (
+                    <div className="h-2 w-2 bg-primary rounded-full" />
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div ref={sentinelRef} />
+      {isFetchingNextPage && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {hasNextPage && !isFetchingNextPage && (
+        <div className="flex justify-center py-6">
+          <Button variant="outline" onClick={() => fetchNextPage()}>
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
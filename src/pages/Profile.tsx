@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,8 +10,12 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Trophy, Star, MessageSquare, HelpCircle, Upload, Bell } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { NOTIFICATION_TYPES } from '@/lib/notifications';
 
 interface Profile {
   id: string;
@@ -21,6 +26,7 @@ interface Profile {
   school_name?: string;
   avatar_url?: string;
   points: number;
+  digest_frequency: string;
 }
 
 interface Badge {
@@ -61,6 +67,7 @@ const Profile = () => {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [userBadges, setUserBadges] = useState<UserBadge[]>([]);
   const [allBadges, setAllBadges] = useState<Badge[]>([]);
+  const [badgeProgress, setBadgeProgress] = useState<Record<string, number>>({});
   const [userStats, setUserStats] = useState<UserStats>({
     questions_asked: 0,
     answers_given: 0,
@@ -68,6 +75,8 @@ const Profile = () => {
     resources_shared: 0
   });
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  // Types the user opted out of; everything else is enabled
+  const [disabledTypes, setDisabledTypes] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [editMode, setEditMode] = useState(false);
@@ -77,8 +86,10 @@ const Profile = () => {
       fetchProfile();
       fetchUserBadges();
       fetchAllBadges();
+      fetchBadgeProgress();
       fetchUserStats();
       fetchNotifications();
+      fetchNotificationPreferences();
     }
   }, [user]);
 
@@ -160,6 +171,27 @@ const Profile = () => {
     }
   };
 
+  const fetchBadgeProgress = async () => {
+    if (!user) return;
+
+    try {
+      // Counters are computed server-side from the same rules that award badges
+      const { data, error } = await supabase
+        .rpc('get_badge_progress', { p_user_id: user.id });
+
+      if (error) throw error;
+
+      setBadgeProgress(
+        (data || []).reduce((acc, progress) => {
+          acc[progress.badge_id] = progress.current_value;
+          return acc;
+        }, {} as Record<string, number>)
+      );
+    } catch (error) {
+      console.error('Error fetching badge progress:', error);
+    }
+  };
+
   const fetchUserStats = async () => {
     try {
       // Get questions asked
@@ -216,6 +248,69 @@ const Profile = () => {
     }
   };
 
+  const fetchNotificationPreferences = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('type, enabled')
+        .eq('user_id', user?.id);
+
+      if (error) throw error;
+      setDisabledTypes((data || []).filter(pref => !pref.enabled).map(pref => pref.type));
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    }
+  };
+
+  const updateNotificationPreference = async (type: string, enabled: boolean) => {
+    if (!user) return;
+
+    const previous = disabledTypes;
+    setDisabledTypes(prev => enabled ? prev.filter(t => t !== type) : [...prev, type]);
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: user.id, type, enabled }, { onConflict: 'user_id,type' });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating notification preference:', error);
+      setDisabledTypes(previous);
+      toast({
+        title: "Error",
+        description: "Failed to update notification settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateDigestFrequency = async (frequency: string) => {
+    if (!profile || !user) return;
+
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ digest_frequency: frequency })
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      setProfile({ ...profile, digest_frequency: frequency });
+      toast({
+        title: "Success",
+        description: frequency === 'off' ? "Email digests turned off" : `You'll get a ${frequency} email digest`,
+      });
+    } catch (error) {
+      console.error('Error updating digest frequency:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update notification settings",
+        variant: "destructive",
+      });
+    }
+  };
+
   const updateProfile = async (updatedProfile: Partial<Profile>) => {
     if (!profile || !user) return;
 
@@ -266,7 +361,7 @@ const Profile = () => {
   };
 
   const getProgressToNextBadge = (badge: Badge) => {
-    const currentValue = userStats[badge.requirement_type as keyof UserStats] || profile?.points || 0;
+    const currentValue = badgeProgress[badge.id] || 0;
     return Math.min((currentValue / badge.requirement_value) * 100, 100);
   };
 
@@ -497,9 +592,7 @@ const Profile = () => {
                       .slice(0, 5)
                       .map((badge) => {
                         const progress = getProgressToNextBadge(badge);
-                        const currentValue = badge.requirement_type === 'points' 
-                          ? profile.points 
-                          : userStats[badge.requirement_type as keyof UserStats] || 0;
+                        const currentValue = badgeProgress[badge.id] || 0;
                         
                         return (
                           <div key={badge.id} className="space-y-2">
@@ -529,10 +622,15 @@ const Profile = () => {
             <TabsContent value="notifications" className="space-y-4">
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Bell className="h-5 w-5" />
-                    Recent Notifications
-                  </CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <Bell className="h-5 w-5" />
+                      Recent Notifications
+                    </CardTitle>
+                    <Button asChild variant="link" size="sm">
+                      <Link to="/notifications">View all</Link>
+                    </Button>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   {notifications.length === 0 ? (
@@ -571,6 +669,46 @@ const Profile = () => {
                   )}
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Notification Settings</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="digest-frequency">Email digest</Label>
+                      <p className="text-xs text-muted-foreground">A summary of unread notifications by email</p>
+                    </div>
+                    <Select
+                      value={profile?.digest_frequency || 'off'}
+                      onValueChange={updateDigestFrequency}
+                    >
+                      <SelectTrigger id="digest-frequency" className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Off</SelectItem>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+                    <div key={type} className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor={`notify-${type}`}>{label}</Label>
+                        <p className="text-xs text-muted-foreground">{description}</p>
+                      </div>
+                      <Switch
+                        id={`notify-${type}`}
+                        checked={!disabledTypes.includes(type)}
+                        onCheckedChange={(checked) => updateNotificationPreference(type, checked)}
+                      />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
             </TabsContent>
           </Tabs>
         </div>
@@ -1,19 +1,23 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { Link, useParams, useNavigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { ThumbsUp, MessageSquare, Eye, ArrowLeft, Check } from "lucide-react";
+import { MessageSquare, Eye, ArrowLeft, Check, Lightbulb, Loader2 } from "lucide-react";
 import { toast } from "sonner";
+import VoteButtons, { VoteValue } from "@/components/VoteButtons";
+import CommentThread from "@/components/CommentThread";
+import { useAnswerHints } from "@/hooks/useAiSuggestion";
 
 interface Answer {
   id: string;
   content: string;
   user_id: string;
   upvotes: number;
+  downvotes: number;
   is_accepted: boolean;
   created_at: string;
   profiles: {
@@ -29,6 +33,7 @@ interface Question {
   subject_id: string;
   difficulty: string;
   upvotes: number;
+  downvotes: number;
   view_count: number;
   is_resolved: boolean;
   created_at: string;
@@ -39,17 +44,23 @@ interface Question {
     name: string;
     code: string;
   };
+  tags: { name: string }[];
 }
 
 export default function QuestionDetail() {
   const { id } = useParams();
   const { user } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const [question, setQuestion] = useState<Question | null>(null);
   const [answers, setAnswers] = useState<Answer[]>([]);
+  const [userVotes, setUserVotes] = useState<Record<string, VoteValue>>({});
   const [newAnswer, setNewAnswer] = useState("");
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const { data: hintData, error: hintsError, loading: loadingHints, request: requestHints } = useAnswerHints();
+  const [revealedHints, setRevealedHints] = useState(0);
+  const hints = hintData?.hints ?? null;
 
   useEffect(() => {
     if (id) {
@@ -59,6 +70,16 @@ export default function QuestionDetail() {
     }
   }, [id]);
 
+  useEffect(() => {
+    fetchUserVotes();
+  }, [user, question?.id, answers]);
+
+  // Search results link to a specific answer with #answer-<id>
+  useEffect(() => {
+    if (!location.hash || answers.length === 0) return;
+    document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [location.hash, answers.length]);
+
   const fetchQuestion = async () => {
     try {
       const { data, error } = await supabase
@@ -66,7 +87,8 @@ export default function QuestionDetail() {
         .select(`
           *,
           profiles:user_id (full_name),
-          subjects:subject_id (name, code)
+          subjects:subject_id (name, code),
+          tags (name)
         `)
         .eq('id', id)
         .single();
@@ -100,12 +122,36 @@ export default function QuestionDetail() {
     }
   };
 
+  const fetchUserVotes = async () => {
+    if (!user || !question) {
+      setUserVotes({});
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('votes')
+        .select('target_id, value')
+        .eq('user_id', user.id)
+        .in('target_id', [question.id, ...answers.map(a => a.id)]);
+
+      if (error) throw error;
+
+      setUserVotes(
+        (data || []).reduce((acc, vote) => {
+          acc[vote.target_id] = vote.value as VoteValue;
+          return acc;
+        }, {} as Record<string, VoteValue>)
+      );
+    } catch (error) {
+      console.error('Error fetching votes:', error);
+    }
+  };
+
   const incrementViewCount = async () => {
     try {
-      await supabase
-        .from('questions')
-        .update({ view_count: (question?.view_count || 0) + 1 })
-        .eq('id', id);
+      const { error } = await supabase.rpc('increment_question_view', { p_question_id: id });
+      if (error) throw error;
     } catch (error) {
       console.error('Error incrementing view count:', error);
     }
@@ -138,47 +184,15 @@ export default function QuestionDetail() {
     }
   };
 
-  const upvoteAnswer = async (answerId: string) => {
-    if (!user) return;
-
-    try {
-      // Simple upvote increment for now
-      const { error } = await supabase
-        .from('answers')
-        .update({ upvotes: answers.find(a => a.id === answerId)?.upvotes + 1 })
-        .eq('id', answerId);
-
-      if (error) throw error;
-      fetchAnswers();
-    } catch (error) {
-      console.error('Error upvoting answer:', error);
-    }
-  };
-
   const acceptAnswer = async (answerId: string) => {
     if (!user || !question || question.user_id !== user.id) return;
 
     try {
-      // Unmark all other answers as accepted
-      await supabase
-        .from('answers')
-        .update({ is_accepted: false })
-        .eq('question_id', id);
-
-      // Mark this answer as accepted
-      const { error } = await supabase
-        .from('answers')
-        .update({ is_accepted: true })
-        .eq('id', answerId);
+      // Accepting updates other users' answers and awards points, so it runs server-side
+      const { error } = await supabase.rpc('accept_answer', { p_answer_id: answerId });
 
       if (error) throw error;
 
-      // Mark question as resolved
-      await supabase
-        .from('questions')
-        .update({ is_resolved: true })
-        .eq('id', id);
-
       toast.success("Answer accepted!");
       fetchQuestion();
       fetchAnswers();
@@ -188,6 +202,21 @@ export default function QuestionDetail() {
     }
   };
 
+  const revealNextHint = async () => {
+    if (!question) return;
+
+    if (hints) {
+      setRevealedHints(prev => Math.min(prev + 1, hints.length));
+      return;
+    }
+
+    // Hints are fetched once and then revealed one at a time
+    const result = await requestHints(`${question.title}\n\n${question.content}`, question.subjects?.name);
+    if (result.ok) {
+      setRevealedHints(1);
+    }
+  };
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'easy': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
@@ -269,9 +298,68 @@ export default function QuestionDetail() {
         </CardHeader>
         <CardContent>
           <p className="text-foreground whitespace-pre-wrap">{question.content}</p>
+          {question.tags?.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-4">
+              {question.tags.map(tag => (
+                <Link key={tag.name} to={`/tags/${tag.name}`}>
+                  <Badge variant="outline" className="text-xs hover:bg-accent">#{tag.name}</Badge>
+                </Link>
+              ))}
+            </div>
+          )}
+          <div className="mt-4">
+            <VoteButtons
+              targetType="question"
+              targetId={question.id}
+              upvotes={question.upvotes || 0}
+              downvotes={question.downvotes || 0}
+              userVote={userVotes[question.id] || 0}
+              disabled={!user || question.user_id === user.id}
+            />
+          </div>
+          <CommentThread targetType="question" targetId={question.id} />
         </CardContent>
       </Card>
 
+      {/* Hints */}
+      {user && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Lightbulb className="h-5 w-5 text-yellow-500" />
+              Need a hint?
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {hints?.slice(0, revealedHints).map((hint, index) => (
+              <div key={index} className="p-3 rounded-lg border bg-muted/50">
+                <p className="text-xs font-medium text-muted-foreground mb-1">Hint {index + 1}</p>
+                <p className="text-sm whitespace-pre-wrap">{hint}</p>
+              </div>
+            ))}
+
+            {hintsError && (
+              <p className="text-sm text-destructive">{hintsError}</p>
+            )}
+
+            {hints && hints.length === 0 && (
+              <p className="text-sm text-muted-foreground">No hints are available for this question.</p>
+            )}
+
+            {(!hints || revealedHints < hints.length) && (
+              <Button variant="outline" size="sm" onClick={revealNextHint} disabled={loadingHints}>
+                {loadingHints && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {loadingHints
+                  ? "Getting hints..."
+                  : hints
+                    ? `Show next hint (${revealedHints + 1}/${hints.length})`
+                    : hintsError ? "Try again" : "Show a hint"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Answers Section */}
       <div className="space-y-4">
         <h2 className="text-xl font-semibold">
@@ -279,7 +367,11 @@ export default function QuestionDetail() {
         </h2>
 
         {answers.map((answer) => (
-          <Card key={answer.id} className={answer.is_accepted ? 'border-green-500' : ''}>
+          <Card
+            key={answer.id}
+            id={`answer-${answer.id}`}
+            className={answer.is_accepted ? 'border-green-500' : ''}
+          >
             <CardContent className="p-6">
               <div className="flex justify-between items-start mb-4">
                 <div className="flex items-center gap-2">
@@ -295,15 +387,14 @@ export default function QuestionDetail() {
                   )}
                 </div>
                 <div className="flex items-center gap-2">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => upvoteAnswer(answer.id)}
-                    disabled={!user}
-                  >
-                    <ThumbsUp className="h-4 w-4 mr-1" />
-                    {answer.upvotes}
-                  </Button>
+                  <VoteButtons
+                    targetType="answer"
+                    targetId={answer.id}
+                    upvotes={answer.upvotes || 0}
+                    downvotes={answer.downvotes || 0}
+                    userVote={userVotes[answer.id] || 0}
+                    disabled={!user || answer.user_id === user.id}
+                  />
                   {user && question.user_id === user.id && !question.is_resolved && (
                     <Button
                       variant="outline"
@@ -317,6 +408,7 @@ export default function QuestionDetail() {
                 </div>
               </div>
               <p className="text-foreground whitespace-pre-wrap">{answer.content}</p>
+              <CommentThread targetType="answer" targetId={answer.id} />
             </CardContent>
           </Card>
         ))}
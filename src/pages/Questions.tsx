@@ -1,93 +1,90 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { MessageSquare, ThumbsUp, Eye, Plus } from "lucide-react";
-import { Link } from "react-router-dom";
-
-interface Question {
-  id: string;
-  title: string;
-  content: string;
-  user_id: string;
-  subject_id: string;
-  difficulty: string;
-  upvotes: number;
-  view_count: number;
-  is_resolved: boolean;
-  created_at: string;
-  profiles: {
-    full_name: string;
-  } | null;
-  subjects: {
-    name: string;
-    code: string;
-  } | null;
-  answers: { count: number }[];
-  answer_count?: number;
-}
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageSquare, Eye, Plus, Loader2, X } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
+import VoteButtons, { VoteValue } from "@/components/VoteButtons";
+import { QuestionFilter, QuestionSort, useQuestionFeed } from "@/hooks/useQuestionFeed";
+
+const FILTERS: QuestionFilter[] = ['all', 'unanswered', 'resolved'];
+const SORTS: QuestionSort[] = ['newest', 'votes'];
 
 export default function Questions() {
   const { user } = useAuth();
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'resolved' | 'unanswered'>('all');
+  // Sort and filter live in the URL so the feed can be linked and restored
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filterParam = searchParams.get('filter') as QuestionFilter;
+  const sortParam = searchParams.get('sort') as QuestionSort;
+  const filter: QuestionFilter = FILTERS.includes(filterParam) ? filterParam : 'all';
+  const sort: QuestionSort = SORTS.includes(sortParam) ? sortParam : 'newest';
+  const tag = searchParams.get('tag');
+
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useQuestionFeed(sort, filter, tag);
+  const questions = data?.pages.flat() ?? [];
+  const [userVotes, setUserVotes] = useState<Record<string, VoteValue>>({});
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    fetchQuestions();
-  }, [filter]);
+    fetchUserVotes();
+  }, [user, questions.length]);
 
-  const fetchQuestions = async () => {
-    try {
-      // Use the regular questions table and compute answer counts manually
-      const { data, error } = await supabase
-        .from('questions')
-        .select(`
-          *,
-          profiles:user_id (full_name),
-          subjects:subject_id (name, code)
-        `)
-        .order('created_at', { ascending: false });
+  // Load the next page as the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
 
-      if (error) throw error;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
 
-      // Get answer counts for all questions
-      const { data: answerCounts, error: countError } = await supabase
-        .from('answers')
-        .select('question_id')
-        .in('question_id', (data || []).map(q => q.id));
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-      if (countError) {
-        console.error('Error fetching answer counts:', countError);
+  const updateParam = (key: 'filter' | 'sort' | 'tag', value: string, defaultValue: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value === defaultValue) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
       }
+      return next;
+    });
+  };
 
-      // Count answers per question
-      const answerCountMap = (answerCounts || []).reduce((acc, answer) => {
-        acc[answer.question_id] = (acc[answer.question_id] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-      // Add answer counts to questions
-      const questionsWithCounts = (data || []).map(question => ({
-        ...question,
-        answer_count: answerCountMap[question.id] || 0
-      }));
-
-      // Apply filter
-      let filteredQuestions = questionsWithCounts;
-      if (filter === 'resolved') {
-        filteredQuestions = questionsWithCounts.filter(q => q.is_resolved);
-      } else if (filter === 'unanswered') {
-        filteredQuestions = questionsWithCounts.filter(q => q.answer_count === 0);
-      }
+  const setFilter = (value: QuestionFilter) => updateParam('filter', value, 'all');
+
+  const fetchUserVotes = async () => {
+    if (!user || questions.length === 0) {
+      setUserVotes({});
+      return;
+    }
 
-      setQuestions(filteredQuestions as any);
+    try {
+      const { data, error } = await supabase
+        .from('votes')
+        .select('target_id, value')
+        .eq('user_id', user.id)
+        .eq('target_type', 'question')
+        .in('target_id', questions.map(q => q.id));
+
+      if (error) throw error;
+
+      setUserVotes(
+        (data || []).reduce((acc, vote) => {
+          acc[vote.target_id] = vote.value as VoteValue;
+          return acc;
+        }, {} as Record<string, VoteValue>)
+      );
     } catch (error) {
-      console.error('Error fetching questions:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error fetching votes:', error);
     }
   };
 
@@ -100,7 +97,7 @@ export default function Questions() {
     }
   };
 
-  if (loading) {
+  if (isLoading) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="animate-pulse space-y-4">
@@ -132,7 +129,7 @@ export default function Questions() {
         </Link>
       </div>
 
-      <div className="flex gap-2 mb-6">
+      <div className="flex flex-wrap gap-2 mb-6">
         <Button
           variant={filter === 'all' ? 'default' : 'outline'}
           onClick={() => setFilter('all')}
@@ -151,8 +148,36 @@ export default function Questions() {
         >
           Resolved
         </Button>
+        <Select value={sort} onValueChange={(value) => updateParam('sort', value, 'newest')}>
+          <SelectTrigger className="w-40 ml-auto">
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="newest">Newest</SelectItem>
+            <SelectItem value="votes">Most voted</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
 
+      {tag && (
+        <div className="flex items-center gap-2 mb-6 text-sm">
+          <span className="text-muted-foreground">Tagged</span>
+          <Badge variant="secondary" className="gap-1">
+            {tag}
+            <button type="button" onClick={() => updateParam('tag', '', '')} aria-label="Clear tag filter">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+          <Link to={`/tags/${tag}`} className="text-primary hover:underline">
+            View tag
+          </Link>
+        </div>
+      )}
+
+      {isError && (
+        <p className="text-sm text-destructive mb-4">Failed to load questions. Please try again.</p>
+      )}
+
       <div className="space-y-4">
         {questions.map((question) => (
           <Card key={question.id} className="hover:shadow-md transition-shadow">
@@ -168,6 +193,15 @@ export default function Questions() {
                   <p className="text-muted-foreground text-sm mt-1 line-clamp-2">
                     {question.content}
                   </p>
+                  {question.tags?.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {question.tags.map(t => (
+                        <Link key={t.name} to={`/questions?tag=${encodeURIComponent(t.name)}`}>
+                          <Badge variant="outline" className="text-xs hover:bg-accent">#{t.name}</Badge>
+                        </Link>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 {question.is_resolved && (
                   <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
@@ -177,13 +211,17 @@ export default function Questions() {
               </div>
 
               <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                <div className="flex items-center gap-1">
-                  <ThumbsUp className="h-4 w-4" />
-                  {question.upvotes}
-                </div>
+                <VoteButtons
+                  targetType="question"
+                  targetId={question.id}
+                  upvotes={question.upvotes || 0}
+                  downvotes={question.downvotes || 0}
+                  userVote={userVotes[question.id] || 0}
+                  disabled={!user || question.user_id === user.id}
+                />
                 <div className="flex items-center gap-1">
                   <MessageSquare className="h-4 w-4" />
-                  {question.answer_count || question.answers?.[0]?.count || 0}
+                  {question.answer_count}
                 </div>
                 <div className="flex items-center gap-1">
                   <Eye className="h-4 w-4" />
@@ -205,7 +243,21 @@ export default function Questions() {
         ))}
       </div>
 
-      {questions.length === 0 && (
+      <div ref={sentinelRef} />
+      {isFetchingNextPage && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {hasNextPage && !isFetchingNextPage && (
+        <div className="flex justify-center py-6">
+          <Button variant="outline" onClick={() => fetchNextPage()}>
+            Load more
+          </Button>
+        </div>
+      )}
+
+      {!isError && questions.length === 0 && (
         <Card>
           <CardContent className="p-12 text-center">
             <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
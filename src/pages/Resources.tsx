@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,9 +11,25 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Search, Download, Upload, FileText, Image as ImageIcon, File, Star } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Search, Download, Upload, FileText, Image as ImageIcon, File, Star, Trash2, X } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import FileUpload from '@/components/FileUpload';
+import TagInput from '@/components/TagInput';
+import { buildListSearchFilter } from '@/lib/search';
+import { fetchTag, setContentTags } from '@/lib/tags';
+import { buildObjectPath, getFileUrl, removeFile, RESOURCES_BUCKET, uploadWithProgress } from '@/lib/storage';
 
 interface Subject {
   id: string;
@@ -40,30 +56,47 @@ interface Resource {
     name: string;
     code: string;
   } | null;
+  tags: { name: string }[];
 }
 
 const Resources = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const highlightId = searchParams.get('highlight');
+  const tagFilter = searchParams.get('tag');
   const [resources, setResources] = useState<Resource[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedSubject, setSelectedSubject] = useState('all');
+  const latestFetchRef = useRef(0);
   const [loading, setLoading] = useState(true);
   const [showUploadDialog, setShowUploadDialog] = useState(false);
   const [uploadForm, setUploadForm] = useState({
     title: '',
     description: '',
     subject_id: '',
-    file: null as File | null
+    file: null as File | null,
+    tags: [] as string[]
   });
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
 
   useEffect(() => {
-    fetchResources();
     fetchSubjects();
   }, []);
 
+  // Search runs in Postgres, debounced while the user is typing
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchResources(), searchTerm ? 300 : 0);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, tagFilter]);
+
+  // Links from search and notifications point at a single resource
+  useEffect(() => {
+    if (!highlightId || loading) return;
+    document.getElementById(`resource-${highlightId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightId, loading]);
+
   const fetchSubjects = async () => {
     try {
       const { data, error } = await supabase
@@ -80,32 +113,55 @@ const Resources = () => {
   };
 
   const fetchResources = async () => {
+    // Responses can arrive out of order while the user types; only the
+    // latest request may update the list
+    const fetchId = ++latestFetchRef.current;
     try {
-      const { data, error } = await supabase
+      // Filtering by tag needs an inner join on the tag links
+      let tagId: string | null = null;
+      if (tagFilter) {
+        const tag = await fetchTag(tagFilter);
+        if (fetchId !== latestFetchRef.current) return;
+        if (!tag) {
+          setResources([]);
+          return;
+        }
+        tagId = tag.id;
+      }
+
+      let query = supabase
         .from('resources')
         .select(`
           *,
           profiles!user_id (full_name),
-          subjects!subject_id (name, code)
-        `)
-        .order('created_at', { ascending: false });
+          subjects!subject_id (name, code),
+          tags (name)${tagId ? ', resource_tags!inner (tag_id)' : ''}
+        `);
 
+      if (tagId) {
+        query = query.eq('resource_tags.tag_id', tagId);
+      }
+
+      if (searchTerm.trim()) {
+        query = query.or(await buildListSearchFilter(searchTerm.trim()));
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (fetchId !== latestFetchRef.current) return;
       if (error) throw error;
       setResources(data as any || []);
     } catch (error) {
-      console.error('Error fetching resources:', error);
+      if (fetchId === latestFetchRef.current) console.error('Error fetching resources:', error);
     } finally {
-      setLoading(false);
+      if (fetchId === latestFetchRef.current) setLoading(false);
     }
   };
 
-  const handleFileUpload = async (file: File): Promise<string> => {
-    // Simulate file upload - in real app, upload to Supabase Storage
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve(`https://example.com/files/${file.name}`);
-      }, 1000);
-    });
+  // Uploads into the user's folder and returns the object path for file_url
+  const handleFileUpload = async (file: File, onProgress: (percent: number) => void): Promise<string> => {
+    if (!user) throw new Error('You must be signed in to upload');
+    return uploadWithProgress(RESOURCES_BUCKET, buildObjectPath([user.id], file), file, onProgress);
   };
 
   const handleUploadSubmit = async (e: React.FormEvent) => {
@@ -113,33 +169,56 @@ const Resources = () => {
     if (!user || !uploadForm.file) return;
 
     setUploading(true);
+    setUploadProgress(0);
+    let filePath: string | null = null;
     try {
-      const fileUrl = await handleFileUpload(uploadForm.file);
-      
-      const { error } = await supabase
+      filePath = await handleFileUpload(uploadForm.file, setUploadProgress);
+
+      const { data: resource, error } = await supabase
         .from('resources')
         .insert([{
           title: uploadForm.title,
           description: uploadForm.description,
           subject_id: uploadForm.subject_id || null,
-          file_url: fileUrl,
+          file_url: filePath,
           file_type: uploadForm.file.type,
           file_size: uploadForm.file.size,
           user_id: user.id
-        }]);
+        }])
+        .select('id')
+        .single();
 
       if (error) throw error;
 
+      if (uploadForm.tags.length > 0) {
+        try {
+          await setContentTags('resource', resource.id, uploadForm.tags);
+        } catch (tagError) {
+          console.error('Error saving tags:', tagError);
+          toast({
+            title: "Tags not saved",
+            description: "The resource was uploaded, but its tags could not be saved",
+            variant: "destructive",
+          });
+        }
+      }
+
       toast({
         title: "Success",
         description: "Resource uploaded successfully!",
       });
 
       setShowUploadDialog(false);
-      setUploadForm({ title: '', description: '', subject_id: '', file: null });
+      setUploadForm({ title: '', description: '', subject_id: '', file: null, tags: [] });
       fetchResources();
     } catch (error) {
       console.error('Error uploading resource:', error);
+      // Don't leave the uploaded file behind if the row couldn't be created
+      if (filePath) {
+        removeFile(RESOURCES_BUCKET, filePath).catch(removeError =>
+          console.error('Error removing uploaded file:', removeError)
+        );
+      }
       toast({
         title: "Error",
         description: "Failed to upload resource",
@@ -159,10 +238,41 @@ const Resources = () => {
           .update({ download_count: resource.download_count + 1 })
           .eq('id', resourceId);
       }
-      window.open(fileUrl, '_blank');
+      const url = await getFileUrl(RESOURCES_BUCKET, fileUrl);
+      window.open(url, '_blank');
       fetchResources();
     } catch (error) {
       console.error('Error downloading resource:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download resource",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The stored file is queued for removal by a trigger when the row goes
+  const deleteResource = async (resourceId: string) => {
+    try {
+      const { error } = await supabase
+        .from('resources')
+        .delete()
+        .eq('id', resourceId);
+
+      if (error) throw error;
+
+      setResources(prev => prev.filter(r => r.id !== resourceId));
+      toast({
+        title: "Success",
+        description: "Resource deleted",
+      });
+    } catch (error) {
+      console.error('Error deleting resource:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete resource",
+        variant: "destructive",
+      });
     }
   };
 
@@ -178,12 +288,6 @@ const Resources = () => {
     return <FileText className="h-4 w-4" />;
   };
 
-  const filteredResources = resources.filter(resource =>
-    resource.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    resource.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    resource.subjects?.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
-
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -261,6 +365,15 @@ const Resources = () => {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="resource-tags">Tags (Optional)</Label>
+                <TagInput
+                  id="resource-tags"
+                  value={uploadForm.tags}
+                  onChange={(tags) => setUploadForm(prev => ({ ...prev, tags }))}
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label>File</Label>
                 <FileUpload
@@ -276,6 +389,13 @@ const Resources = () => {
                 )}
               </div>
 
+              {uploading && (
+                <div className="space-y-1">
+                  <Progress value={uploadProgress} className="h-2" />
+                  <p className="text-xs text-muted-foreground">{uploadProgress}% uploaded</p>
+                </div>
+              )}
+
               <div className="flex gap-2">
                 <Button type="submit" disabled={!uploadForm.file || uploading} className="flex-1">
                   {uploading ? 'Uploading...' : 'Upload'}
@@ -299,9 +419,33 @@ const Resources = () => {
         />
       </div>
 
+      {tagFilter && (
+        <div className="flex items-center gap-2 mb-6 text-sm">
+          <span className="text-muted-foreground">Tagged</span>
+          <Badge variant="secondary" className="gap-1">
+            {tagFilter}
+            <button
+              type="button"
+              onClick={() => setSearchParams(prev => {
+                const next = new URLSearchParams(prev);
+                next.delete('tag');
+                return next;
+              })}
+              aria-label="Clear tag filter"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {filteredResources.map((resource) => (
-          <Card key={resource.id} className="hover:shadow-md transition-shadow">
+        {resources.map((resource) => (
+          <Card
+            key={resource.id}
+            id={`resource-${resource.id}`}
+            className={`hover:shadow-md transition-shadow ${resource.id === highlightId ? 'ring-2 ring-primary' : ''}`}
+          >
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
                 {getFileIcon(resource.file_type)}
@@ -334,27 +478,62 @@ const Resources = () => {
                   {resource.file_type?.toUpperCase()}
                 </Badge>
               </div>
+
+              {resource.tags?.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-4">
+                  {resource.tags.map(tag => (
+                    <Link key={tag.name} to={`/tags/${tag.name}`}>
+                      <Badge variant="outline" className="text-xs hover:bg-accent">#{tag.name}</Badge>
+                    </Link>
+                  ))}
+                </div>
+              )}
               
               <div className="flex items-center justify-between">
                 <div className="text-sm text-muted-foreground">
                   <p>by {resource.profiles?.full_name}</p>
                   <p>{new Date(resource.created_at).toLocaleDateString()}</p>
                 </div>
-                <Button 
-                  size="sm" 
-                  onClick={() => downloadResource(resource.id, resource.file_url)}
-                  disabled={!resource.file_url}
-                >
-                  <Download className="h-4 w-4 mr-2" />
-                  Download
-                </Button>
+                <div className="flex items-center gap-2">
+                  {user?.id === resource.user_id && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="sm" variant="ghost" aria-label="Delete resource">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this resource?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            "{resource.title}" and its file will be permanently removed.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteResource(resource.id)}>
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                  <Button 
+                    size="sm" 
+                    onClick={() => downloadResource(resource.id, resource.file_url)}
+                    disabled={!resource.file_url}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
-      {filteredResources.length === 0 && (
+      {resources.length === 0 && (
         <Card>
           <CardContent className="p-12 text-center">
             <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search as SearchIcon, Loader2 } from 'lucide-react';
+import SearchSnippet from '@/components/SearchSnippet';
+import {
+  getSearchResultLink,
+  searchContent,
+  SEARCH_RESULT_LABELS,
+  SearchFilters,
+  SearchResult,
+  SearchResultType,
+} from '@/lib/search';
+
+interface Subject {
+  id: string;
+  name: string;
+}
+
+const PAGE_SIZE = 20;
+
+const TYPE_BADGES: Record<SearchResultType, string> = {
+  question: 'Question',
+  answer: 'Answer',
+  resource: 'Resource',
+  group: 'Study Group',
+};
+
+const Search = () => {
+  // Filters live in the URL so searches can be shared and survive a reload
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const type = searchParams.get('type') || 'all';
+  const subject = searchParams.get('subject') || 'all';
+  const difficulty = searchParams.get('difficulty') || 'any';
+  const resolved = searchParams.get('resolved') || 'any';
+
+  const [input, setInput] = useState(query);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    fetchSubjects();
+  }, []);
+
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  useEffect(() => {
+    runSearch(0);
+  }, [query, type, subject, difficulty, resolved]);
+
+  const fetchSubjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('subjects')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setSubjects(data || []);
+    } catch (error) {
+      console.error('Error fetching subjects:', error);
+    }
+  };
+
+  const buildFilters = (offset: number): SearchFilters => ({
+    types: type === 'all' ? undefined : [type as SearchResultType],
+    subjectId: subject === 'all' ? undefined : subject,
+    difficulty: difficulty === 'any' ? undefined : difficulty as SearchFilters['difficulty'],
+    isResolved: resolved === 'any' ? undefined : resolved === 'resolved',
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  const runSearch = async (offset: number) => {
+    if (!query.trim()) {
+      setResults([]);
+      setHasMore(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await searchContent(query.trim(), buildFilters(offset));
+      setResults(prev => offset === 0 ? data : [...prev, ...data]);
+      setHasMore(data.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error searching:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateParam = (key: string, value: string, defaultValue: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value === defaultValue) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParam('q', input.trim(), '');
+  };
+
+  // Difficulty and resolved status only exist on questions and answers
+  const qaOnly = difficulty !== 'any' || resolved !== 'any';
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-foreground">Search</h1>
+        <p className="text-muted-foreground">Find questions, answers, resources and study groups</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+        <div className="relative flex-1">
+          <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder='Try "photosynthesis" or "quadratic -graph"'
+            className="pl-10"
+            autoFocus
+          />
+        </div>
+        <Button type="submit">Search</Button>
+      </form>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-6">
+        <Select value={type} onValueChange={(value) => updateParam('type', value, 'all')}>
+          <SelectTrigger>
+            <SelectValue placeholder="Type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All types</SelectItem>
+            {(Object.keys(SEARCH_RESULT_LABELS) as SearchResultType[]).map(resultType => (
+              <SelectItem key={resultType} value={resultType}>
+                {SEARCH_RESULT_LABELS[resultType]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={subject} onValueChange={(value) => updateParam('subject', value, 'all')}>
+          <SelectTrigger>
+            <SelectValue placeholder="Subject" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All subjects</SelectItem>
+            {subjects.map(s => (
+              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={difficulty} onValueChange={(value) => updateParam('difficulty', value, 'any')}>
+          <SelectTrigger>
+            <SelectValue placeholder="Difficulty" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any difficulty</SelectItem>
+            <SelectItem value="easy">Easy</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="hard">Hard</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={resolved} onValueChange={(value) => updateParam('resolved', value, 'any')}>
+          <SelectTrigger>
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any status</SelectItem>
+            <SelectItem value="resolved">Resolved</SelectItem>
+            <SelectItem value="unresolved">Unresolved</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {qaOnly && (
+        <p className="text-xs text-muted-foreground mb-4">
+          Difficulty and status filters only match questions and answers.
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {results.map(result => (
+          <Card key={`${result.result_type}-${result.id}`} className="hover:shadow-md transition-shadow">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-2 mb-1">
+                <Badge variant="outline">{TYPE_BADGES[result.result_type]}</Badge>
+                <Link
+                  to={getSearchResultLink(result)}
+                  className="font-semibold text-foreground hover:text-primary transition-colors truncate"
+                >
+                  {result.result_type === 'answer' ? `Answer to: ${result.title}` : result.title}
+                </Link>
+              </div>
+              <SearchSnippet snippet={result.snippet} />
+              <p className="text-xs text-muted-foreground mt-2">
+                {new Date(result.created_at).toLocaleDateString()}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {loading && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {!loading && hasMore && (
+        <div className="flex justify-center mt-6">
+          <Button variant="outline" onClick={() => runSearch(results.length)}>
+            Load more
+          </Button>
+        </div>
+      )}
+
+      {!loading && query.trim() && results.length === 0 && (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <SearchIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-foreground mb-2">No results found</h3>
+            <p className="text-muted-foreground">Try different keywords or fewer filters.</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Search;
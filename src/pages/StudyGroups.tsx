@@ -1,12 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Users, Search, Plus, Lock, Globe } from "lucide-react";
+import { Users, Search, Plus, Lock, Globe, Mail } from "lucide-react";
 import { Link } from "react-router-dom";
+import { useToast } from "@/components/ui/use-toast";
+import { fetchGroupUnreadCounts, joinGroup as requestJoin, joinGroupMessage } from "@/lib/groups";
+import { buildListSearchFilter } from "@/lib/search";
 
 interface StudyGroup {
   id: string;
@@ -15,6 +18,7 @@ interface StudyGroup {
   creator_id: string;
   subject_id: string;
   max_members: number;
+  member_count: number;
   privacy: string;
   created_at: string;
   profiles: {
@@ -24,7 +28,6 @@ interface StudyGroup {
     name: string;
     code: string;
   } | null;
-  group_members: { count: number }[];
 }
 
 export default function StudyGroups() {
@@ -32,56 +35,137 @@ export default function StudyGroups() {
   const [groups, setGroups] = useState<StudyGroup[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const latestFetchRef = useRef(0);
+  const [memberGroupIds, setMemberGroupIds] = useState<Set<string>>(new Set());
+  const [requestedGroupIds, setRequestedGroupIds] = useState<Set<string>>(new Set());
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [joiningId, setJoiningId] = useState<string | null>(null);
+  const { toast } = useToast();
 
+  // Search runs in Postgres, debounced while the user is typing
   useEffect(() => {
-    fetchGroups();
-  }, []);
+    const timeout = setTimeout(() => fetchGroups(), searchTerm ? 300 : 0);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    fetchMemberships();
+  }, [user]);
 
   const fetchGroups = async () => {
+    // Responses can arrive out of order while the user types; only the
+    // latest request may update the list
+    const fetchId = ++latestFetchRef.current;
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('study_groups')
         .select(`
           *,
           profiles:creator_id (full_name),
-          subjects:subject_id (name, code),
-          group_members (count)
-        `)
-        .order('created_at', { ascending: false });
+          subjects:subject_id (name, code)
+        `);
+
+      if (searchTerm.trim()) {
+        query = query.or(await buildListSearchFilter(searchTerm.trim()));
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
 
+      if (fetchId !== latestFetchRef.current) return;
       if (error) throw error;
       setGroups(data as any || []);
     } catch (error) {
-      console.error('Error fetching study groups:', error);
+      if (fetchId === latestFetchRef.current) console.error('Error fetching study groups:', error);
     } finally {
-      setLoading(false);
+      if (fetchId === latestFetchRef.current) setLoading(false);
     }
   };
 
-  const joinGroup = async (groupId: string) => {
-    if (!user) return;
+  // Groups the user belongs to or has asked to join, for the join buttons,
+  // and unread message counts for the groups they belong to
+  const fetchMemberships = async () => {
+    if (!user) {
+      setMemberGroupIds(new Set());
+      setRequestedGroupIds(new Set());
+      setUnreadCounts({});
+      return;
+    }
 
     try {
-      const { error } = await supabase
-        .from('group_members')
-        .insert([{
-          group_id: groupId,
-          user_id: user.id,
-          role: 'member'
-        }]);
+      const [unread, requestsRes] = await Promise.all([
+        fetchGroupUnreadCounts(),
+        supabase.from('group_join_requests').select('group_id').eq('user_id', user.id).eq('status', 'pending'),
+      ]);
 
-      if (error) throw error;
+      if (requestsRes.error) throw requestsRes.error;
+
+      setMemberGroupIds(new Set(unread.map(row => row.group_id)));
+      setUnreadCounts(Object.fromEntries(unread.map(row => [row.group_id, row.unread_count])));
+      setRequestedGroupIds(new Set(requestsRes.data.map(row => row.group_id)));
+    } catch (error) {
+      console.error('Error fetching memberships:', error);
+    }
+  };
+
+  const joinGroup = async (group: StudyGroup) => {
+    if (!user) return;
+
+    setJoiningId(group.id);
+    try {
+      const status = await requestJoin(group.id);
+      toast({
+        title: status === 'requested' ? "Request sent" : "Success",
+        description: joinGroupMessage(status, group.name),
+      });
       fetchGroups();
+      fetchMemberships();
     } catch (error) {
       console.error('Error joining group:', error);
+      toast({
+        title: "Couldn't join group",
+        description: (error as { message?: string })?.message || "Failed to join the group",
+        variant: "destructive",
+      });
+    } finally {
+      setJoiningId(null);
     }
   };
 
-  const filteredGroups = groups.filter(group =>
-    group.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    group.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    group.subjects?.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const renderJoinButton = (group: StudyGroup) => {
+    if (memberGroupIds.has(group.id)) {
+      return (
+        <Button size="sm" variant="secondary" disabled>
+          Joined
+        </Button>
+      );
+    }
+    if (requestedGroupIds.has(group.id)) {
+      return (
+        <Button size="sm" variant="secondary" disabled>
+          Requested
+        </Button>
+      );
+    }
+    if (group.member_count >= group.max_members) {
+      return (
+        <Button size="sm" disabled>
+          Full
+        </Button>
+      );
+    }
+
+    return (
+      <Button
+        size="sm"
+        onClick={() => joinGroup(group)}
+        disabled={!user || joiningId === group.id}
+      >
+        {group.privacy === 'private'
+          ? 'Request to Join'
+          : group.privacy === 'invite_only' ? 'Accept Invite' : 'Join'}
+      </Button>
+    );
+  };
 
   if (loading) {
     return (
@@ -126,7 +210,7 @@ export default function StudyGroups() {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {filteredGroups.map((group) => (
+        {groups.map((group) => (
           <Card key={group.id} className="hover:shadow-md transition-shadow">
             <CardHeader>
               <div className="flex justify-between items-start">
@@ -136,9 +220,16 @@ export default function StudyGroups() {
                     {group.description}
                   </p>
                 </div>
-                <div className="flex items-center gap-1 text-muted-foreground">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  {unreadCounts[group.id] > 0 && (
+                    <Badge variant="destructive" title="Unread messages">
+                      {unreadCounts[group.id] > 99 ? '99+' : unreadCounts[group.id]} new
+                    </Badge>
+                  )}
                   {group.privacy === 'private' ? (
                     <Lock className="h-4 w-4" />
+                  ) : group.privacy === 'invite_only' ? (
+                    <Mail className="h-4 w-4" />
                   ) : (
                     <Globe className="h-4 w-4" />
                   )}
@@ -149,7 +240,7 @@ export default function StudyGroups() {
               <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Users className="h-4 w-4" />
-                  {group.group_members?.[0]?.count || 0}/{group.max_members}
+                  {group.member_count}/{group.max_members}
                 </div>
                 {group.subjects && (
                   <Badge variant="outline">
@@ -168,13 +259,7 @@ export default function StudyGroups() {
                       View
                     </Button>
                   </Link>
-                  <Button 
-                    size="sm" 
-                    onClick={() => joinGroup(group.id)}
-                    disabled={!user}
-                  >
-                    Join
-                  </Button>
+                  {renderJoinButton(group)}
                 </div>
               </div>
             </CardContent>
@@ -182,7 +267,7 @@ export default function StudyGroups() {
         ))}
       </div>
 
-      {filteredGroups.length === 0 && (
+      {groups.length === 0 && (
         <Card>
           <CardContent className="p-12 text-center">
             <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
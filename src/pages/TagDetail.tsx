@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Hash, MessageSquare, FileText, Bell, BellOff } from "lucide-react";
+import { toast } from "sonner";
+import { fetchTag, Tag } from "@/lib/tags";
+
+interface TaggedQuestion {
+  id: string;
+  title: string;
+  answer_count: number;
+  is_resolved: boolean | null;
+  created_at: string;
+}
+
+interface TaggedResource {
+  id: string;
+  title: string;
+  description: string | null;
+  created_at: string;
+}
+
+export default function TagDetail() {
+  const { name } = useParams<{ name: string }>();
+  const { user } = useAuth();
+  const [tag, setTag] = useState<Tag | null>(null);
+  const [questions, setQuestions] = useState<TaggedQuestion[]>([]);
+  const [resources, setResources] = useState<TaggedResource[]>([]);
+  const [following, setFollowing] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [updatingFollow, setUpdatingFollow] = useState(false);
+
+  useEffect(() => {
+    if (name) {
+      fetchTagContent();
+    }
+  }, [name, user]);
+
+  const fetchTagContent = async () => {
+    setLoading(true);
+    try {
+      const found = await fetchTag(name!);
+      setTag(found);
+      if (!found) return;
+
+      const [questionsRes, resourcesRes, followRes] = await Promise.all([
+        supabase
+          .from('questions')
+          .select('id, title, answer_count, is_resolved, created_at, question_tags!inner (tag_id)')
+          .eq('question_tags.tag_id', found.id)
+          .order('created_at', { ascending: false })
+          .limit(20),
+        supabase
+          .from('resources')
+          .select('id, title, description, created_at, resource_tags!inner (tag_id)')
+          .eq('resource_tags.tag_id', found.id)
+          .order('created_at', { ascending: false })
+          .limit(20),
+        user
+          ? supabase
+              .from('tag_follows')
+              .select('tag_id')
+              .eq('user_id', user.id)
+              .eq('tag_id', found.id)
+              .maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+      ]);
+
+      if (questionsRes.error) throw questionsRes.error;
+      if (resourcesRes.error) throw resourcesRes.error;
+
+      setQuestions(questionsRes.data || []);
+      setResources(resourcesRes.data || []);
+      setFollowing(!!followRes.data);
+    } catch (error) {
+      console.error('Error fetching tag:', error);
+      toast.error("Failed to load tag");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleFollow = async () => {
+    if (!user || !tag) return;
+
+    setUpdatingFollow(true);
+    try {
+      if (following) {
+        const { error } = await supabase
+          .from('tag_follows')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('tag_id', tag.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('tag_follows')
+          .insert([{ user_id: user.id, tag_id: tag.id }]);
+        if (error) throw error;
+      }
+
+      setFollowing(!following);
+      setTag({ ...tag, follower_count: tag.follower_count + (following ? -1 : 1) });
+      toast.success(following ? `Unfollowed #${tag.name}` : `Following #${tag.name}`);
+    } catch (error) {
+      console.error('Error updating tag follow:', error);
+      toast.error("Failed to update follow");
+    } finally {
+      setUpdatingFollow(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-300 rounded w-1/3"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!tag) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center">
+        <h2 className="text-2xl font-bold text-foreground mb-4">Tag not found</h2>
+        <Link to="/questions">
+          <Button>Back to Questions</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+            <Hash className="h-7 w-7 text-primary" />
+            {tag.name}
+          </h1>
+          <p className="text-muted-foreground">
+            {tag.usage_count} tagged {tag.usage_count === 1 ? 'post' : 'posts'} · {tag.follower_count} {tag.follower_count === 1 ? 'follower' : 'followers'}
+          </p>
+        </div>
+        {user && (
+          <Button
+            variant={following ? 'outline' : 'default'}
+            onClick={toggleFollow}
+            disabled={updatingFollow}
+            className="gap-2"
+          >
+            {following ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+            {following ? 'Unfollow' : 'Follow'}
+          </Button>
+        )}
+      </div>
+
+      <Tabs defaultValue="questions">
+        <TabsList>
+          <TabsTrigger value="questions">Questions ({questions.length})</TabsTrigger>
+          <TabsTrigger value="resources">Resources ({resources.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="questions" className="space-y-3">
+          {questions.map(question => (
+            <Card key={question.id} className="hover:shadow-md transition-shadow">
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <Link
+                  to={`/questions/${question.id}`}
+                  className="font-medium text-foreground hover:text-primary transition-colors"
+                >
+                  {question.title}
+                </Link>
+                <div className="flex items-center gap-3 text-sm text-muted-foreground shrink-0">
+                  {question.is_resolved && (
+                    <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                      Resolved
+                    </Badge>
+                  )}
+                  <span className="flex items-center gap-1">
+                    <MessageSquare className="h-4 w-4" />
+                    {question.answer_count}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {questions.length > 0 && (
+            <Link to={`/questions?tag=${encodeURIComponent(tag.name)}`} className="text-sm text-primary hover:underline">
+              See all questions tagged #{tag.name}
+            </Link>
+          )}
+          {questions.length === 0 && (
+            <p className="text-muted-foreground text-center py-8">No questions with this tag yet.</p>
+          )}
+        </TabsContent>
+
+        <TabsContent value="resources" className="space-y-3">
+          {resources.map(resource => (
+            <Card key={resource.id} className="hover:shadow-md transition-shadow">
+              <CardContent className="p-4">
+                <Link
+                  to={`/resources?highlight=${resource.id}`}
+                  className="font-medium text-foreground hover:text-primary transition-colors flex items-center gap-2"
+                >
+                  <FileText className="h-4 w-4" />
+                  {resource.title}
+                </Link>
+                {resource.description && (
+                  <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{resource.description}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+          {resources.length > 0 && (
+            <Link to={`/resources?tag=${encodeURIComponent(tag.name)}`} className="text-sm text-primary hover:underline">
+              See all resources tagged #{tag.name}
+            </Link>
+          )}
+          {resources.length === 0 && (
+            <p className="text-muted-foreground text-center py-8">No resources with this tag yet.</p>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
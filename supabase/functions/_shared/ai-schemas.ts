@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+// Shared between the ai-suggestions edge function and the React app so both
+// sides agree on the shape of every suggestion type
+
+const text = z.string().trim().min(1);
+
+export const questionImprovementSchema = z.object({
+  improvedQuestion: text,
+  followUpQuestions: z.array(text).default([]),
+  suggestedTags: z.array(text).default([]),
+});
+
+export const answerHintsSchema = z.object({
+  hints: z.array(text).min(1),
+});
+
+export const studyPlanSchema = z.object({
+  concepts: z.array(text).min(1),
+  sequence: z.array(text).min(1),
+  activities: z.array(text).default([]),
+  timeEstimates: z.record(text).default({}),
+});
+
+export const suggestionSchemas = {
+  'question-improvement': questionImprovementSchema,
+  'answer-hints': answerHintsSchema,
+  'study-plan': studyPlanSchema,
+};
+
+export type SuggestionType = keyof typeof suggestionSchemas;
+export type QuestionImprovement = z.infer<typeof questionImprovementSchema>;
+export type AnswerHints = z.infer<typeof answerHintsSchema>;
+export type StudyPlan = z.infer<typeof studyPlanSchema>;
+export type Suggestion<T extends SuggestionType> = z.infer<typeof suggestionSchemas[T]>;
+
+export type SuggestionValidation<T extends SuggestionType> =
+  | { ok: true; data: Suggestion<T> }
+  | { ok: false; error: string };
+
+// Models often wrap JSON in markdown fences or add a sentence around it
+function extractJson(raw: string): string {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) return fenced[1].trim();
+
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  return start !== -1 && end > start ? raw.slice(start, end + 1) : raw.trim();
+}
+
+export function validateSuggestion<T extends SuggestionType>(type: T, value: unknown): SuggestionValidation<T> {
+  const result = suggestionSchemas[type].safeParse(value);
+  if (result.success) {
+    return { ok: true, data: result.data as Suggestion<T> };
+  }
+
+  const issues = result.error.issues
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+  return { ok: false, error: issues };
+}
+
+export function parseSuggestion<T extends SuggestionType>(type: T, raw: string): SuggestionValidation<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(raw));
+  } catch {
+    return { ok: false, error: 'response was not valid JSON' };
+  }
+
+  return validateSuggestion(type, value);
+}
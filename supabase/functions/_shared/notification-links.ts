@@ -0,0 +1,24 @@
+// Where a notification leads, based on what its related_id points at. Shared
+// by the app and the digest emails.
+export function getNotificationLink(type: string, relatedId: string | null): string | null {
+  // Badges are shown on the profile rather than a page of their own
+  if (type === 'points_earned') return '/profile';
+  if (!relatedId) return null;
+
+  switch (type) {
+    case 'question_answered':
+    case 'answer_accepted':
+    case 'comment_added':
+    case 'mention':
+      return `/questions/${relatedId}`;
+    case 'group_invitation':
+    case 'join_request':
+      return `/groups/${relatedId}`;
+    case 'session_reminder':
+      return `/dashboard?highlight=${relatedId}`;
+    case 'resource_shared':
+      return `/resources?highlight=${relatedId}`;
+    default:
+      return null;
+  }
+}
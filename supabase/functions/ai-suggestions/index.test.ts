@@ -0,0 +1,104 @@
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseSuggestion, suggestionSchemas } from "../_shared/ai-schemas.ts";
+import { buildPrompt, isSuggestionType, parseSuggestionRequest, SYSTEM_PROMPT, type SuggestionType } from "./prompts.ts";
+import { completeWithRetry, createProviderFromEnv } from "./providers/index.ts";
+
+// Runs the same pipeline as index.ts (prompt, provider, schema) without the
+// HTTP handler, auth and quota, against the offline fixture provider
+const provider = createProviderFromEnv(new Map([['AI_PROVIDER', 'fixture']]));
+const retryOptions = { timeoutMs: 1000, maxRetries: 0 };
+const topic = 'How do I solve quadratic equations by completing the square?';
+
+async function suggest<T extends SuggestionType>(type: T) {
+  const response = await completeWithRetry(provider, {
+    suggestionType: type,
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildPrompt(type, topic, 'Mathematics') },
+    ],
+    temperature: 0.7,
+  }, retryOptions);
+
+  return { response, result: parseSuggestion(type, response.content) };
+}
+
+const suggestionTypes = Object.keys(suggestionSchemas) as SuggestionType[];
+
+for (const type of suggestionTypes) {
+  Deno.test(`${type}: fixture output passes the shared schema`, async () => {
+    const { response, result } = await suggest(type);
+
+    assertEquals(response.provider, 'fixture');
+    assert(result.ok, result.ok ? undefined : result.error);
+  });
+
+  Deno.test(`${type}: fixture output is deterministic`, async () => {
+    const first = await suggest(type);
+    const second = await suggest(type);
+
+    assertEquals(first.response.content, second.response.content);
+  });
+}
+
+Deno.test('question-improvement: echoes the question from the prompt', async () => {
+  const { result } = await suggest('question-improvement');
+
+  assert(result.ok);
+  assertStringIncludes(result.data.improvedQuestion, topic);
+  assertEquals(result.data.followUpQuestions.length, 3);
+});
+
+Deno.test('answer-hints: returns progressive hints', async () => {
+  const { result } = await suggest('answer-hints');
+
+  assert(result.ok);
+  assertEquals(result.data.hints.length, 3);
+  assertStringIncludes(result.data.hints[0], topic);
+});
+
+Deno.test('study-plan: has a time estimate for every step', async () => {
+  const { result } = await suggest('study-plan');
+
+  assert(result.ok);
+  for (const step of result.data.sequence) {
+    assert(result.data.timeEstimates[step], `missing time estimate for ${step}`);
+  }
+});
+
+Deno.test('isSuggestionType accepts only known types', () => {
+  for (const type of suggestionTypes) {
+    assert(isSuggestionType(type));
+  }
+  assert(!isSuggestionType('essay-grading'));
+  assert(!isSuggestionType('toString'));
+  assert(!isSuggestionType(undefined));
+});
+
+Deno.test('parseSuggestionRequest rejects unknown types and missing content', () => {
+  const valid = parseSuggestionRequest({ type: 'answer-hints', content: topic, subject: 'Mathematics' });
+  assert(valid.ok);
+  assertEquals(valid.data.type, 'answer-hints');
+
+  const unknownType = parseSuggestionRequest({ type: 'essay-grading', content: topic });
+  assert(!unknownType.ok);
+  assertStringIncludes(unknownType.error, 'type: must be one of');
+
+  const missingContent = parseSuggestionRequest({ type: 'study-plan', content: '  ' });
+  assert(!missingContent.ok);
+  assertStringIncludes(missingContent.error, 'content');
+
+  assert(!parseSuggestionRequest(null).ok);
+});
+
+Deno.test('parseSuggestion unwraps fenced JSON and reports schema errors', () => {
+  const fenced = parseSuggestion('answer-hints', 'Here you go:\n```json\n{"hints": ["Start small"]}\n```');
+  assert(fenced.ok);
+  assertEquals(fenced.data.hints, ['Start small']);
+
+  const invalid = parseSuggestion('answer-hints', '{"hints": []}');
+  assert(!invalid.ok);
+  assertStringIncludes(invalid.error, 'hints');
+
+  const notJson = parseSuggestion('study-plan', 'I cannot help with that.');
+  assertEquals(notJson, { ok: false, error: 'response was not valid JSON' });
+});
@@ -1,7 +1,15 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseSuggestion } from "../_shared/ai-schemas.ts";
+import { buildPrompt, buildRepairPrompt, parseSuggestionRequest, SYSTEM_PROMPT } from "./prompts.ts";
+import { ChatMessage, completeWithRetry, createProviderFromEnv, retryOptionsFromEnv } from "./providers/index.ts";
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+const provider = createProviderFromEnv(Deno.env);
+const retryOptions = retryOptionsFromEnv(Deno.env);
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const hourlyLimit = Number(Deno.env.get('AI_SUGGESTIONS_HOURLY_LIMIT') ?? '20');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,85 +22,89 @@ serve(async (req) => {
   }
 
   try {
-    const { type, content, subject } = await req.json();
-
-    let prompt = '';
-    switch (type) {
-      case 'question-improvement':
-        prompt = `As an educational assistant, help improve this question for clarity and learning effectiveness:
-
-Question: "${content}"
-Subject: ${subject || 'General'}
-
-Please provide:
-1. An improved version of the question with better clarity
-2. 3 related follow-up questions that would deepen understanding
-3. Suggested tags or topics this question covers
-
-Format your response as JSON with keys: improvedQuestion, followUpQuestions, suggestedTags`;
-        break;
+    const request = parseSuggestionRequest(await req.json().catch(() => null));
+    if (!request.ok) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Invalid request: ${request.error}`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-      case 'answer-hints':
-        prompt = `As an educational tutor, provide helpful hints for this question without giving away the full answer:
+    const { type, content, subject } = request.data;
 
-Question: "${content}"
-Subject: ${subject || 'General'}
+    // Requests are made on behalf of the signed-in user so the quota is per user
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
 
-Provide 3 progressive hints that guide the student toward understanding, starting with the most general approach and becoming more specific. Format as JSON with key: hints (array of strings)`;
-        break;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'You must be signed in to request suggestions'
+      }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-      case 'study-plan':
-        prompt = `Create a personalized study plan for this topic:
+    const { data: allowed, error: quotaError } = await supabase.rpc('consume_ai_suggestion_quota', {
+      p_type: type,
+      p_limit: hourlyLimit,
+    });
 
-Topic: "${content}"
-Subject: ${subject || 'General'}
+    if (quotaError) throw quotaError;
 
-Provide a structured study plan with:
-1. Key concepts to understand
-2. Recommended study sequence
-3. Practice activities
-4. Time estimates for each section
+    if (!allowed) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `You can request up to ${hourlyLimit} suggestions per hour. Please try again later.`
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-Format as JSON with keys: concepts, sequence, activities, timeEstimates`;
-        break;
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildPrompt(type, content, subject) }
+    ];
 
-      default:
-        throw new Error('Invalid suggestion type');
-    }
+    const first = await completeWithRetry(provider, { suggestionType: type, messages, temperature: 0.7 }, retryOptions);
+    let result = parseSuggestion(type, first.content);
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
+    // Give the model one chance to repair output that fails the schema
+    if (!result.ok) {
+      console.warn(`Invalid ${type} suggestion, re-prompting: ${result.error}`);
+      const repaired = await completeWithRetry(provider, {
+        suggestionType: type,
         messages: [
-          { 
-            role: 'system', 
-            content: 'You are an expert educational assistant. Always provide accurate, helpful, and pedagogically sound advice. Format responses as valid JSON when requested.' 
-          },
-          { role: 'user', content: prompt }
+          ...messages,
+          { role: 'assistant', content: first.content },
+          { role: 'user', content: buildRepairPrompt(result.error) }
         ],
-        temperature: 0.7,
-      }),
-    });
-
-    const data = await response.json();
-    const suggestion = data.choices[0].message.content;
+        temperature: 0,
+      }, retryOptions);
+      result = parseSuggestion(type, repaired.content);
+    }
 
-    // Try to parse as JSON, fallback to plain text
-    let parsedSuggestion;
-    try {
-      parsedSuggestion = JSON.parse(suggestion);
-    } catch {
-      parsedSuggestion = { content: suggestion };
+    if (!result.ok) {
+      console.error(`Invalid ${type} suggestion after repair: ${result.error}`);
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'The suggestion service returned an unexpected response. Please try again.'
+      }), {
+        status: 502,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
     return new Response(JSON.stringify({ 
       success: true, 
-      suggestion: parsedSuggestion 
+      suggestion: result.data 
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { suggestionSchemas, type SuggestionType } from "../_shared/ai-schemas.ts";
+
+export type { SuggestionType };
+
+export const SYSTEM_PROMPT =
+  'You are an expert educational assistant. Always provide accurate, helpful, and pedagogically sound advice. Format responses as valid JSON when requested.';
+
+export function isSuggestionType(value: unknown): value is SuggestionType {
+  return typeof value === 'string' && Object.hasOwn(suggestionSchemas, value);
+}
+
+const suggestionRequestSchema = z.object({
+  type: z.custom<SuggestionType>(isSuggestionType, {
+    message: `must be one of ${Object.keys(suggestionSchemas).join(', ')}`,
+  }),
+  content: z.string().trim().min(1),
+  subject: z.string().optional(),
+});
+
+export type SuggestionRequest = z.infer<typeof suggestionRequestSchema>;
+
+// Checks the request body before any auth, quota or provider work, so bad
+// input is reported to the caller instead of surfacing as a server error
+export function parseSuggestionRequest(body: unknown):
+  | { ok: true; data: SuggestionRequest }
+  | { ok: false; error: string } {
+  const result = suggestionRequestSchema.safeParse(body);
+  if (result.success) {
+    return { ok: true, data: result.data };
+  }
+
+  const issues = result.error.issues
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+  return { ok: false, error: issues };
+}
+
+// Follow-up turn sent when the model's output fails schema validation
+export function buildRepairPrompt(validationError: string): string {
+  return `Your previous response could not be used: ${validationError}.
+
+Reply again with only a single JSON object that follows the requested keys and types exactly. Do not include markdown or any other text.`;
+}
+
+export function buildPrompt(type: SuggestionType, content: string, subject?: string): string {
+  switch (type) {
+    case 'question-improvement':
+      return `As an educational assistant, help improve this question for clarity and learning effectiveness:
+
+Question: "${content}"
+Subject: ${subject || 'General'}
+
+Please provide:
+1. An improved version of the question with better clarity
+2. 3 related follow-up questions that would deepen understanding
+3. Suggested tags or topics this question covers
+
+Format your response as JSON with keys: improvedQuestion, followUpQuestions, suggestedTags`;
+
+    case 'answer-hints':
+      return `As an educational tutor, provide helpful hints for this question without giving away the full answer:
+
+Question: "${content}"
+Subject: ${subject || 'General'}
+
+Provide 3 progressive hints that guide the student toward understanding, starting with the most general approach and becoming more specific. Format as JSON with key: hints (array of strings)`;
+
+    case 'study-plan':
+      return `Create a personalized study plan for this topic:
+
+Topic: "${content}"
+Subject: ${subject || 'General'}
+
+Provide a structured study plan with:
+1. Key concepts to understand
+2. Recommended study sequence
+3. Practice activities
+4. Time estimates for each section
+
+Format as JSON with keys: concepts, sequence, activities, timeEstimates`;
+  }
+}
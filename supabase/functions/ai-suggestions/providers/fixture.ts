@@ -0,0 +1,51 @@
+import type { SuggestionType } from "../prompts.ts";
+import { CompletionRequest, CompletionResponse, LlmProvider } from "./types.ts";
+
+// Pulls the quoted question/topic back out of the prompt so fixtures can echo it
+function extractSubjectLine(request: CompletionRequest): string {
+  const prompt = request.messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+  const match = prompt.match(/(?:Question|Topic): "([\s\S]*?)"\n/);
+  return (match?.[1] ?? prompt).trim().split('\n')[0].slice(0, 120);
+}
+
+const fixtures: Record<SuggestionType, (topic: string) => unknown> = {
+  'question-improvement': (topic) => ({
+    improvedQuestion: `Can you explain ${topic}, including the key steps and why each one works?`,
+    followUpQuestions: [
+      `What are the underlying principles behind ${topic}?`,
+      `What is a common mistake when working on ${topic}?`,
+      `How would ${topic} change with different starting values?`,
+    ],
+    suggestedTags: ['fundamentals', 'problem-solving', 'practice'],
+  }),
+  'answer-hints': (topic) => ({
+    hints: [
+      `Start by identifying what ${topic} is asking you to find.`,
+      'List the facts or formulas that connect what you know to what you need.',
+      'Apply them one step at a time and check each intermediate result.',
+    ],
+  }),
+  'study-plan': (topic) => ({
+    concepts: [`Core definitions for ${topic}`, 'Worked examples', 'Common pitfalls'],
+    sequence: ['Review definitions', 'Study worked examples', 'Practice problems', 'Self-test'],
+    activities: ['Summarise each concept in your own words', 'Solve 5 practice problems', 'Explain the topic to a peer'],
+    timeEstimates: {
+      'Review definitions': '30 minutes',
+      'Study worked examples': '45 minutes',
+      'Practice problems': '60 minutes',
+      'Self-test': '20 minutes',
+    },
+  }),
+};
+
+// Deterministic offline provider: the same request always yields the same JSON
+export function createFixtureProvider(): LlmProvider {
+  return {
+    name: 'fixture',
+
+    complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const content = JSON.stringify(fixtures[request.suggestionType](extractSubjectLine(request)));
+      return Promise.resolve({ content, provider: 'fixture', model: 'fixture' });
+    },
+  };
+}
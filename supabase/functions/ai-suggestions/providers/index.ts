@@ -0,0 +1,76 @@
+import { createFixtureProvider } from "./fixture.ts";
+import { createOllamaProvider } from "./ollama.ts";
+import { createOpenAIProvider } from "./openai.ts";
+import { CompletionRequest, CompletionResponse, LlmProvider, ProviderError } from "./types.ts";
+
+export * from "./types.ts";
+
+export interface RetryOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs?: number;
+}
+
+// AI_PROVIDER selects the backend: openai (default), ollama or fixture
+export function createProviderFromEnv(env: { get(key: string): string | undefined }): LlmProvider {
+  const providerName = env.get('AI_PROVIDER') ?? 'openai';
+
+  switch (providerName) {
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: env.get('OPENAI_API_KEY'),
+        baseUrl: env.get('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1',
+        model: env.get('AI_MODEL') ?? 'gpt-4o-mini',
+      });
+    case 'ollama':
+      return createOllamaProvider({
+        baseUrl: env.get('OLLAMA_URL') ?? 'http://localhost:11434',
+        model: env.get('AI_MODEL') ?? 'llama3.1',
+      });
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${providerName}`);
+  }
+}
+
+export function retryOptionsFromEnv(env: { get(key: string): string | undefined }): RetryOptions {
+  return {
+    timeoutMs: Number(env.get('AI_TIMEOUT_MS') ?? '20000'),
+    maxRetries: Number(env.get('AI_MAX_RETRIES') ?? '2'),
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs a completion with a per-attempt timeout, retrying timeouts, network
+// failures and retryable provider errors with exponential backoff
+export async function completeWithRetry(
+  provider: LlmProvider,
+  request: CompletionRequest,
+  { timeoutMs, maxRetries, baseDelayMs = 500 }: RetryOptions,
+): Promise<CompletionResponse> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await provider.complete(request, controller.signal);
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new ProviderError(`${provider.name} request timed out after ${timeoutMs}ms`, true)
+        : error;
+
+      const retryable = lastError instanceof ProviderError ? lastError.retryable : lastError instanceof TypeError;
+      if (!retryable || attempt === maxRetries) break;
+
+      await sleep(baseDelayMs * 2 ** attempt);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
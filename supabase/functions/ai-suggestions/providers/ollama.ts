@@ -0,0 +1,40 @@
+import { CompletionRequest, CompletionResponse, LlmProvider, ProviderError, providerErrorFromResponse } from "./types.ts";
+
+interface OllamaProviderOptions {
+  baseUrl: string;
+  model: string;
+}
+
+// A locally running Ollama-style HTTP server (POST /api/chat)
+export function createOllamaProvider({ baseUrl, model }: OllamaProviderOptions): LlmProvider {
+  return {
+    name: 'ollama',
+
+    async complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResponse> {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          stream: false,
+          format: 'json',
+          options: { temperature: request.temperature },
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw providerErrorFromResponse('ollama', response, await response.text());
+      }
+
+      const data = await response.json();
+      const content = data.message?.content;
+      if (typeof content !== 'string') {
+        throw new ProviderError('ollama response did not include message content', false);
+      }
+
+      return { content, provider: 'ollama', model: data.model ?? model };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { CompletionRequest, CompletionResponse, LlmProvider, ProviderError, providerErrorFromResponse } from "./types.ts";
+
+interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseUrl: string;
+  model: string;
+}
+
+// Any server implementing the OpenAI chat completions API
+export function createOpenAIProvider({ apiKey, baseUrl, model }: OpenAIProviderOptions): LlmProvider {
+  return {
+    name: 'openai',
+
+    async complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResponse> {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          temperature: request.temperature,
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw providerErrorFromResponse('openai', response, await response.text());
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new ProviderError('openai response did not include message content', false);
+      }
+
+      return { content, provider: 'openai', model: data.model ?? model };
+    },
+  };
+}
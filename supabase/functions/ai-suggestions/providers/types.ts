@@ -0,0 +1,46 @@
+import type { SuggestionType } from "../prompts.ts";
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Shared request shape handed to every provider
+export interface CompletionRequest {
+  suggestionType: SuggestionType;
+  messages: ChatMessage[];
+  temperature: number;
+}
+
+// Shared response shape returned by every provider
+export interface CompletionResponse {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+export interface LlmProvider {
+  name: string;
+  complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResponse>;
+}
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// Rate limits and server errors are worth retrying, client errors are not
+export function providerErrorFromResponse(provider: string, response: Response, body: string): ProviderError {
+  const retryable = response.status === 429 || response.status >= 500;
+  return new ProviderError(
+    `${provider} request failed with status ${response.status}: ${body.slice(0, 200)}`,
+    retryable,
+    response.status,
+  );
+}
@@ -0,0 +1,93 @@
+export interface CalendarSession {
+  id: string;
+  group_id: string;
+  group_name: string;
+  title: string;
+  agenda: string | null;
+  location: string | null;
+  meeting_url: string | null;
+  starts_at: string;
+  ends_at: string;
+  updated_at: string;
+}
+
+export interface CalendarContext {
+  name: string;
+  sessions: CalendarSession[];
+  appUrl: string;
+}
+
+// Control characters other than escaped line breaks could end a content
+// line early and inject properties into the feed
+const stripControl = (value: string) => value.replace(/\p{Cc}/gu, '');
+
+// Commas, semicolons and backslashes are structural in iCalendar text values
+const escapeText = (value: string) =>
+  stripControl(
+    value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r\n|\r|\n/g, '\\n')
+  );
+
+// 20250821T090000Z
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets are folded onto continuation lines starting
+// with a space (RFC 5545 section 3.1)
+const encoder = new TextEncoder();
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function renderEvent(session: CalendarSession, appUrl: string, stamp: string): string[] {
+  const groupUrl = `${appUrl}/groups/${session.group_id}`;
+  const description = [session.agenda, session.meeting_url, groupUrl].filter(Boolean).join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${session.id}@study-sessions`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${formatDate(session.updated_at)}`,
+    `DTSTART:${formatDate(session.starts_at)}`,
+    `DTEND:${formatDate(session.ends_at)}`,
+    `SUMMARY:${escapeText(`${session.title} (${session.group_name})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(session.location ? [`LOCATION:${escapeText(session.location)}`] : []),
+    `URL:${stripControl(session.meeting_url ?? groupUrl)}`,
+    'END:VEVENT',
+  ];
+}
+
+export function renderCalendar({ name, sessions, appUrl }: CalendarContext): string {
+  const stamp = formatDate(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//local-learn-link//Study Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...sessions.flatMap(session => renderEvent(session, appUrl, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,135 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CalendarSession, renderCalendar } from "./ics.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const appUrl = (Deno.env.get('APP_URL') ?? 'http://localhost:8080').replace(/\/$/, '');
+const maxUpcomingSessions = 500;
+// Recent sessions stay in the feed so calendars don't drop them right away.
+// They're capped separately so a long history never pushes out upcoming ones.
+const historyDays = 30;
+const maxRecentSessions = 100;
+const sessionColumns = 'id, group_id, title, agenda, location, meeting_url, starts_at, ends_at, updated_at';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const notFound = () =>
+  new Response('Calendar not found', {
+    status: 404,
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain' },
+  });
+
+// iCalendar feed of study sessions. Calendar apps can't sign in, so the
+// caller is identified by the secret token from get_calendar_feed_token.
+// Without a group parameter the feed covers every group the user belongs
+// to, leaving out sessions they declined.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const token = url.searchParams.get('token');
+  const groupId = url.searchParams.get('group');
+  if (!token) return notFound();
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  try {
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed) return notFound();
+
+    let membershipQuery = supabase
+      .from('group_members')
+      .select('group_id, study_groups (name)')
+      .eq('user_id', feed.user_id);
+    if (groupId) membershipQuery = membershipQuery.eq('group_id', groupId);
+
+    const { data: memberships, error: membershipError } = await membershipQuery;
+    if (membershipError) throw membershipError;
+    if (groupId && !memberships?.length) return notFound();
+
+    const groupNames = new Map<string, string>(
+      (memberships ?? []).map((m: { group_id: string; study_groups: { name: string } | null }) =>
+        [m.group_id, m.study_groups?.name ?? 'Study group']
+      )
+    );
+
+    let sessions: CalendarSession[] = [];
+    if (groupNames.size > 0) {
+      const groupIds = [...groupNames.keys()];
+      const now = new Date().toISOString();
+      const since = new Date(Date.now() - historyDays * 24 * 60 * 60 * 1000).toISOString();
+
+      const [upcoming, recent] = await Promise.all([
+        supabase
+          .from('group_sessions')
+          .select(sessionColumns)
+          .in('group_id', groupIds)
+          .gte('ends_at', now)
+          .order('starts_at')
+          .limit(maxUpcomingSessions),
+        supabase
+          .from('group_sessions')
+          .select(sessionColumns)
+          .in('group_id', groupIds)
+          .gte('ends_at', since)
+          .lt('ends_at', now)
+          .order('ends_at', { ascending: false })
+          .limit(maxRecentSessions),
+      ]);
+
+      if (upcoming.error) throw upcoming.error;
+      if (recent.error) throw recent.error;
+      const data = [...(recent.data ?? []).reverse(), ...(upcoming.data ?? [])];
+
+      let declined = new Set<string>();
+      if (!groupId && data.length) {
+        const { data: rsvps, error: rsvpError } = await supabase
+          .from('session_rsvps')
+          .select('session_id')
+          .eq('user_id', feed.user_id)
+          .eq('status', 'not_going')
+          .in('session_id', data.map(session => session.id));
+
+        if (rsvpError) throw rsvpError;
+        declined = new Set((rsvps ?? []).map(rsvp => rsvp.session_id));
+      }
+
+      sessions = data
+        .filter(session => !declined.has(session.id))
+        .map(session => ({ ...session, group_name: groupNames.get(session.group_id)! }));
+    }
+
+    const body = renderCalendar({
+      name: groupId ? `${groupNames.get(groupId)} sessions` : 'Study sessions',
+      sessions,
+      appUrl,
+    });
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="sessions.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return new Response(JSON.stringify({ success: false, error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createTransportFromEnv, MailTransport } from "./transports/index.ts";
+import { DigestFrequency, DigestNotification, renderDigest } from "./templates.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const appUrl = (Deno.env.get('APP_URL') ?? 'http://localhost:8080').replace(/\/$/, '');
+const batchSize = Number(Deno.env.get('DIGEST_BATCH_SIZE') ?? '200');
+const maxItems = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+// An hour of slack so a run that starts a little early still picks users up
+const periods: Record<DigestFrequency, number> = {
+  daily: 24 * HOUR_MS - HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS - HOUR_MS,
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DigestRecipient {
+  user_id: string;
+  full_name: string | null;
+  digest_frequency: DigestFrequency;
+  last_digest_sent_at: string | null;
+}
+
+type DigestOutcome = 'sent' | 'empty' | 'failed';
+
+async function sendDigest(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  recipient: DigestRecipient,
+  now: Date,
+): Promise<DigestOutcome> {
+  // Only notifications since the last digest, so nothing is sent twice
+  const since = recipient.last_digest_sent_at
+    ?? new Date(now.getTime() - periods[recipient.digest_frequency]).toISOString();
+
+  const { data, count, error } = await supabase
+    .from('notifications')
+    .select('type, title, message, related_id, event_count, created_at', { count: 'exact' })
+    .eq('user_id', recipient.user_id)
+    .eq('is_read', false)
+    .gt('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(maxItems);
+
+  if (error) throw error;
+
+  // Errors abort the run: a user whose send can't be recorded would
+  // otherwise be emailed again every hour
+  const markSent = async () => {
+    const { error: updateError } = await supabase
+      .from('profiles')
+      .update({ last_digest_sent_at: now.toISOString(), last_digest_attempt_at: now.toISOString() })
+      .eq('user_id', recipient.user_id);
+
+    if (updateError) throw updateError;
+  };
+
+  // Failed users keep their old last_digest_sent_at and are retried next run,
+  // behind everyone who hasn't been tried as recently
+  const markFailed = async () => {
+    const { error: updateError } = await supabase
+      .from('profiles')
+      .update({ last_digest_attempt_at: now.toISOString() })
+      .eq('user_id', recipient.user_id);
+
+    if (updateError) throw updateError;
+  };
+
+  if (!count) {
+    await markSent();
+    return 'empty';
+  }
+
+  const { data: userData, error: userError } = await supabase.auth.admin.getUserById(recipient.user_id);
+  const email = userData?.user?.email;
+  if (userError || !email) {
+    console.error(`No email address for user ${recipient.user_id}:`, userError);
+    await markFailed();
+    return 'failed';
+  }
+
+  const digest = renderDigest({
+    recipientName: recipient.full_name || 'there',
+    frequency: recipient.digest_frequency,
+    notifications: (data ?? []) as DigestNotification[],
+    unreadCount: count,
+    appUrl,
+  });
+
+  try {
+    await transport.send({ to: email, ...digest });
+  } catch (sendError) {
+    console.error(`Failed to send digest to user ${recipient.user_id}:`, sendError);
+    await markFailed();
+    return 'failed';
+  }
+
+  await markSent();
+  return 'sent';
+}
+
+// Emails daily and weekly digests of unread notifications. Invoked by pg_cron
+// with the service role key; users are picked up once their period has passed
+// since the last digest, so running it more often is harmless.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  let transport: MailTransport | null = null;
+
+  try {
+    transport = createTransportFromEnv(Deno.env);
+    const now = new Date();
+    const results: Record<DigestOutcome, number> = { sent: 0, empty: 0, failed: 0 };
+
+    for (const frequency of Object.keys(periods) as DigestFrequency[]) {
+      const cutoff = new Date(now.getTime() - periods[frequency]).toISOString();
+
+      const { data: recipients, error } = await supabase
+        .from('profiles')
+        .select('user_id, full_name, digest_frequency, last_digest_sent_at')
+        .eq('digest_frequency', frequency)
+        .or(`last_digest_sent_at.is.null,last_digest_sent_at.lt."${cutoff}"`)
+        // Least recently attempted first, so a batch of users whose sends
+        // keep failing can't block everyone behind them
+        .order('last_digest_attempt_at', { ascending: true, nullsFirst: true })
+        .order('last_digest_sent_at', { ascending: true, nullsFirst: true })
+        .limit(batchSize);
+
+      if (error) throw error;
+
+      for (const recipient of (recipients ?? []) as DigestRecipient[]) {
+        results[await sendDigest(supabase, transport, recipient, now)]++;
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, transport: transport.name, ...results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in notification-digest function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } finally {
+    await transport?.close();
+  }
+});
@@ -0,0 +1,102 @@
+import { getNotificationLink } from "../_shared/notification-links.ts";
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestNotification {
+  type: string;
+  title: string;
+  message: string;
+  related_id: string | null;
+  event_count: number;
+  created_at: string;
+}
+
+export interface DigestContext {
+  recipientName: string;
+  frequency: DigestFrequency;
+  notifications: DigestNotification[];
+  // Total unread, which can exceed the notifications listed
+  unreadCount: number;
+  appUrl: string;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const absoluteLink = (appUrl: string, notification: DigestNotification) => {
+  const path = getNotificationLink(notification.type, notification.related_id) ?? '/notifications';
+  return `${appUrl}${path}`;
+};
+
+export function renderDigest(context: DigestContext): RenderedDigest {
+  const { recipientName, frequency, notifications, unreadCount, appUrl } = context;
+  const period = frequency === 'daily' ? 'today' : 'this week';
+  const subject = `StudyCircle: ${unreadCount} unread ${unreadCount === 1 ? 'notification' : 'notifications'} ${period}`;
+  const remaining = unreadCount - notifications.length;
+  const settingsUrl = `${appUrl}/profile`;
+
+  const text = [
+    `Hi ${recipientName},`,
+    '',
+    `Here's what happened on StudyCircle ${period}:`,
+    '',
+    ...notifications.flatMap(notification => [
+      `- ${notification.title}`,
+      `  ${notification.message}`,
+      `  ${absoluteLink(appUrl, notification)}`,
+    ]),
+    ...(remaining > 0 ? ['', `...and ${remaining} more: ${appUrl}/notifications`] : []),
+    '',
+    `Change how often you get these emails: ${settingsUrl}`,
+  ].join('\n');
+
+  const items = notifications.map(notification => `
+        <tr>
+          <td style="padding:12px 0;border-bottom:1px solid #e5e7eb;">
+            <a href="${escapeHtml(absoluteLink(appUrl, notification))}" style="color:#111827;font-weight:600;text-decoration:none;">
+              ${escapeHtml(notification.title)}
+            </a>
+            <p style="margin:4px 0 0;color:#6b7280;font-size:14px;">${escapeHtml(notification.message)}</p>
+          </td>
+        </tr>`).join('');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,Segoe UI,Roboto,sans-serif;">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <tr>
+        <td>
+          <h1 style="margin:0 0 8px;font-size:20px;color:#111827;">Hi ${escapeHtml(recipientName)},</h1>
+          <p style="margin:0 0 16px;color:#374151;">Here's what happened on StudyCircle ${period}:</p>
+        </td>
+      </tr>${items}
+      ${remaining > 0 ? `
+      <tr>
+        <td style="padding-top:16px;">
+          <a href="${escapeHtml(`${appUrl}/notifications`)}" style="color:#2563eb;">...and ${remaining} more</a>
+        </td>
+      </tr>` : ''}
+      <tr>
+        <td style="padding-top:24px;color:#9ca3af;font-size:12px;">
+          You're receiving this ${frequency} digest because of your notification settings.
+          <a href="${escapeHtml(settingsUrl)}" style="color:#9ca3af;">Change them here</a>.
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`;
+
+  return { subject, html, text };
+}
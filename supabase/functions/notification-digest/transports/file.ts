@@ -0,0 +1,22 @@
+import { MailMessage, MailTransport } from "./types.ts";
+
+// Writes each message to <directory>/<timestamp>-<recipient>.{html,txt} so
+// digests can be checked locally without a mail server
+export function createFileTransport(directory: string): MailTransport {
+  let counter = 0;
+
+  return {
+    name: 'file',
+
+    async send({ to, subject, html, text }: MailMessage) {
+      await Deno.mkdir(directory, { recursive: true });
+      const base = `${directory}/${Date.now()}-${counter++}-${to.replace(/[^a-zA-Z0-9@.-]/g, '_')}`;
+      await Deno.writeTextFile(`${base}.html`, html);
+      await Deno.writeTextFile(`${base}.txt`, `To: ${to}\nSubject: ${subject}\n\n${text}`);
+    },
+
+    close() {
+      return Promise.resolve();
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { createFileTransport } from "./file.ts";
+import { createSmtpTransport } from "./smtp.ts";
+import { MailTransport } from "./types.ts";
+
+export * from "./types.ts";
+
+// MAIL_TRANSPORT selects the backend: smtp (default) or file
+export function createTransportFromEnv(env: { get(key: string): string | undefined }): MailTransport {
+  const transportName = env.get('MAIL_TRANSPORT') ?? 'smtp';
+
+  switch (transportName) {
+    case 'smtp': {
+      const hostname = env.get('SMTP_HOST');
+      const from = env.get('MAIL_FROM');
+      if (!hostname || !from) {
+        throw new Error('SMTP_HOST and MAIL_FROM must be set for the smtp transport');
+      }
+      return createSmtpTransport({
+        hostname,
+        port: Number(env.get('SMTP_PORT') ?? '587'),
+        username: env.get('SMTP_USER'),
+        password: env.get('SMTP_PASSWORD'),
+        from,
+      });
+    }
+    case 'file':
+      return createFileTransport(env.get('MAIL_OUTPUT_DIR') ?? './tmp/mail');
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transportName}`);
+  }
+}
@@ -0,0 +1,35 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { MailMessage, MailTransport } from "./types.ts";
+
+interface SmtpOptions {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+// One connection is reused for every message in a run
+export function createSmtpTransport({ hostname, port, username, password, from }: SmtpOptions): MailTransport {
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port,
+      // Port 465 is implicit TLS; others upgrade with STARTTLS
+      tls: port === 465,
+      auth: username ? { username, password: password ?? '' } : undefined,
+    },
+  });
+
+  return {
+    name: 'smtp',
+
+    async send({ to, subject, html, text }: MailMessage) {
+      await client.send({ from, to, subject, content: text, html });
+    },
+
+    async close() {
+      await client.close();
+    },
+  };
+}
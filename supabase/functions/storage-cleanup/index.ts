@@ -0,0 +1,96 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const batchSize = Number(Deno.env.get('STORAGE_CLEANUP_BATCH_SIZE') ?? '100');
+const maxAttempts = 5;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface StorageDeletion {
+  id: string;
+  bucket_id: string;
+  object_path: string;
+  attempts: number;
+}
+
+// Removes queued storage objects. Invoked hourly by pg_cron with the service
+// role key; rows that keep failing are left in the queue with their error.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  try {
+    const { data: orphaned, error: orphanError } = await supabase.rpc('queue_orphaned_storage_objects');
+    if (orphanError) throw orphanError;
+
+    const { data: pending, error } = await supabase
+      .from('storage_deletions')
+      .select('id, bucket_id, object_path, attempts')
+      .lt('attempts', maxAttempts)
+      .order('created_at')
+      .limit(batchSize);
+
+    if (error) throw error;
+
+    const byBucket = new Map<string, StorageDeletion[]>();
+    for (const row of (pending ?? []) as StorageDeletion[]) {
+      byBucket.set(row.bucket_id, [...(byBucket.get(row.bucket_id) ?? []), row]);
+    }
+
+    let removed = 0;
+    let failed = 0;
+
+    for (const [bucket, rows] of byBucket) {
+      const { error: removeError } = await supabase.storage
+        .from(bucket)
+        .remove(rows.map(row => row.object_path));
+
+      if (removeError) {
+        failed += rows.length;
+        console.error(`Failed to remove objects from ${bucket}:`, removeError);
+        for (const row of rows) {
+          await supabase
+            .from('storage_deletions')
+            .update({ attempts: row.attempts + 1, last_error: removeError.message })
+            .eq('id', row.id);
+        }
+        continue;
+      }
+
+      // Missing objects are not an error, so everything in the batch is done
+      removed += rows.length;
+      await supabase
+        .from('storage_deletions')
+        .delete()
+        .in('id', rows.map(row => row.id));
+    }
+
+    return new Response(JSON.stringify({ success: true, orphaned, removed, failed }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in storage-cleanup function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
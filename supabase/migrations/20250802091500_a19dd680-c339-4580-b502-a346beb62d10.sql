@@ -0,0 +1,279 @@
+-- Points ledger: every change to a user's reputation is recorded here and
+-- profiles.points is kept as the derived total of these rows.
+CREATE TABLE public.point_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  points INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('question_asked', 'answer_given', 'answer_accepted', 'resource_shared')),
+  source_type TEXT NOT NULL CHECK (source_type IN ('question', 'answer', 'resource')),
+  source_id UUID NOT NULL,
+  reversal_of UUID REFERENCES public.point_transactions(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_point_transactions_user_id ON public.point_transactions(user_id);
+CREATE INDEX idx_point_transactions_source ON public.point_transactions(source_type, source_id);
+CREATE UNIQUE INDEX idx_point_transactions_reversal_of ON public.point_transactions(reversal_of);
+
+-- Enable RLS
+ALTER TABLE public.point_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own history; all writes happen through triggers
+CREATE POLICY "Users can view their own point transactions"
+ON public.point_transactions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- profiles.points is derived from the ledger, so clients may only update the
+-- descriptive profile columns
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (full_name, avatar_url, school_name, grade_level, bio) ON public.profiles TO authenticated;
+
+-- Acceptance awards points, so it is only set through accept_answer; answer
+-- authors may edit nothing but the content
+REVOKE UPDATE ON public.answers FROM anon, authenticated;
+GRANT UPDATE (content) ON public.answers TO authenticated;
+
+-- Record a ledger entry for a user
+CREATE OR REPLACE FUNCTION public.award_points(
+  p_user_id UUID,
+  p_points INTEGER,
+  p_reason TEXT,
+  p_source_type TEXT,
+  p_source_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.point_transactions (user_id, points, reason, source_type, source_id)
+  VALUES (p_user_id, p_points, p_reason, p_source_type, p_source_id);
+END;
+$$;
+
+-- Offset every outstanding entry for a source, optionally limited to one reason
+CREATE OR REPLACE FUNCTION public.reverse_points(
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.point_transactions (user_id, points, reason, source_type, source_id, reversal_of)
+  SELECT t.user_id, -t.points, t.reason, t.source_type, t.source_id, t.id
+  FROM public.point_transactions t
+  WHERE t.source_type = p_source_type
+    AND t.source_id = p_source_id
+    AND t.reversal_of IS NULL
+    AND (p_reason IS NULL OR t.reason = p_reason)
+    -- Content removed because its author was deleted has nobody to debit
+    AND EXISTS (SELECT 1 FROM auth.users u WHERE u.id = t.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.point_transactions r WHERE r.reversal_of = t.id
+    );
+END;
+$$;
+
+-- Ledger writes are only reachable through the triggers below
+REVOKE EXECUTE ON FUNCTION public.award_points(UUID, INTEGER, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_points(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Keep profiles.points equal to the ledger total
+CREATE OR REPLACE FUNCTION public.sync_profile_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET points = (
+    SELECT COALESCE(SUM(points), 0)
+    FROM public.point_transactions
+    WHERE user_id = NEW.user_id
+  )
+  WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profile_points_on_transaction
+AFTER INSERT ON public.point_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_profile_points();
+
+-- Questions: +5 for asking, reversed when the question is deleted
+CREATE OR REPLACE FUNCTION public.handle_question_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.award_points(NEW.user_id, 5, 'question_asked', 'question', NEW.id);
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.reverse_points('question', OLD.id);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER question_points_on_insert
+AFTER INSERT ON public.questions
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_question_points();
+
+CREATE TRIGGER question_points_on_delete
+AFTER DELETE ON public.questions
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_question_points();
+
+-- Answers: +10 for answering, +25 when accepted by someone else. Revoking an
+-- acceptance reverses the bonus and deleting the answer reverses everything.
+CREATE OR REPLACE FUNCTION public.handle_answer_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  question_author UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.award_points(NEW.user_id, 10, 'answer_given', 'answer', NEW.id);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.reverse_points('answer', OLD.id);
+    RETURN OLD;
+  END IF;
+
+  IF COALESCE(NEW.is_accepted, false) AND NOT COALESCE(OLD.is_accepted, false) THEN
+    SELECT user_id INTO question_author FROM public.questions WHERE id = NEW.question_id;
+    IF question_author IS DISTINCT FROM NEW.user_id THEN
+      PERFORM public.award_points(NEW.user_id, 25, 'answer_accepted', 'answer', NEW.id);
+    END IF;
+  ELSIF COALESCE(OLD.is_accepted, false) AND NOT COALESCE(NEW.is_accepted, false) THEN
+    PERFORM public.reverse_points('answer', NEW.id, 'answer_accepted');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER answer_points_on_insert
+AFTER INSERT ON public.answers
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_answer_points();
+
+CREATE TRIGGER answer_points_on_accept
+AFTER UPDATE OF is_accepted ON public.answers
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_answer_points();
+
+CREATE TRIGGER answer_points_on_delete
+AFTER DELETE ON public.answers
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_answer_points();
+
+-- Resources: +15 for sharing, reversed when the resource is deleted
+CREATE OR REPLACE FUNCTION public.handle_resource_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.award_points(NEW.user_id, 15, 'resource_shared', 'resource', NEW.id);
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.reverse_points('resource', OLD.id);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER resource_points_on_insert
+AFTER INSERT ON public.resources
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_resource_points();
+
+CREATE TRIGGER resource_points_on_delete
+AFTER DELETE ON public.resources
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_resource_points();
+
+-- Accepting an answer touches other users' rows, which the answers RLS
+-- policies do not allow, so the question author goes through this function
+CREATE OR REPLACE FUNCTION public.accept_answer(p_answer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  target_question_id UUID;
+BEGIN
+  SELECT a.question_id INTO target_question_id
+  FROM public.answers a
+  JOIN public.questions q ON q.id = a.question_id
+  WHERE a.id = p_answer_id
+    AND q.user_id = auth.uid();
+
+  IF target_question_id IS NULL THEN
+    RAISE EXCEPTION 'Only the question author can accept an answer';
+  END IF;
+
+  UPDATE public.answers
+  SET is_accepted = false
+  WHERE question_id = target_question_id
+    AND id <> p_answer_id
+    AND is_accepted;
+
+  UPDATE public.answers
+  SET is_accepted = true
+  WHERE id = p_answer_id
+    AND NOT COALESCE(is_accepted, false);
+
+  UPDATE public.questions
+  SET is_resolved = true
+  WHERE id = target_question_id;
+END;
+$$;
+
+-- Backfill the ledger from existing content
+INSERT INTO public.point_transactions (user_id, points, reason, source_type, source_id, created_at)
+SELECT user_id, 5, 'question_asked', 'question', id, COALESCE(created_at, now())
+FROM public.questions;
+
+INSERT INTO public.point_transactions (user_id, points, reason, source_type, source_id, created_at)
+SELECT user_id, 10, 'answer_given', 'answer', id, COALESCE(created_at, now())
+FROM public.answers;
+
+INSERT INTO public.point_transactions (user_id, points, reason, source_type, source_id, created_at)
+SELECT a.user_id, 25, 'answer_accepted', 'answer', a.id, COALESCE(a.updated_at, now())
+FROM public.answers a
+JOIN public.questions q ON q.id = a.question_id
+WHERE a.is_accepted
+  AND q.user_id <> a.user_id;
+
+INSERT INTO public.point_transactions (user_id, points, reason, source_type, source_id, created_at)
+SELECT user_id, 15, 'resource_shared', 'resource', id, COALESCE(created_at, now())
+FROM public.resources;
+
+UPDATE public.profiles p
+SET points = COALESCE((
+  SELECT SUM(t.points)
+  FROM public.point_transactions t
+  WHERE t.user_id = p.user_id
+), 0);
@@ -0,0 +1,204 @@
+-- Badge requirement types: each row names a counter and the query that
+-- computes it for a user ($1). New badge rules only need a new row here.
+CREATE TABLE public.badge_requirement_types (
+  type TEXT NOT NULL PRIMARY KEY,
+  description TEXT NOT NULL,
+  counter_query TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.badge_requirement_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Badge requirement types are viewable by everyone"
+ON public.badge_requirement_types
+FOR SELECT
+USING (true);
+
+INSERT INTO public.badge_requirement_types (type, description, counter_query) VALUES
+('points', 'Total points earned',
+ 'SELECT COALESCE(points, 0) FROM public.profiles WHERE user_id = $1'),
+('questions_asked', 'Questions asked',
+ 'SELECT count(*) FROM public.questions WHERE user_id = $1'),
+('answers_given', 'Answers given',
+ 'SELECT count(*) FROM public.answers WHERE user_id = $1'),
+('answers_accepted', 'Answers accepted by the question author',
+ 'SELECT count(*) FROM public.answers WHERE user_id = $1 AND is_accepted'),
+('resources_shared', 'Resources shared',
+ 'SELECT count(*) FROM public.resources WHERE user_id = $1'),
+('group_messages_sent', 'Messages sent in study groups',
+ 'SELECT count(*) FROM public.messages WHERE user_id = $1'),
+('daily_streak', 'Longest run of consecutive days with point-earning activity',
+ 'WITH days AS (
+    SELECT DISTINCT (created_at AT TIME ZONE ''UTC'')::date AS day
+    FROM public.point_transactions
+    WHERE user_id = $1 AND points > 0 AND reversal_of IS NULL
+  ), runs AS (
+    SELECT day - (row_number() OVER (ORDER BY day))::integer AS run_start
+    FROM days
+  )
+  SELECT COALESCE(MAX(run_length), 0) FROM (
+    SELECT count(*) AS run_length FROM runs GROUP BY run_start
+  ) r');
+
+-- Badges now reference the requirement type table instead of a fixed list
+ALTER TABLE public.badges DROP CONSTRAINT badges_requirement_type_check;
+ALTER TABLE public.badges
+  ADD CONSTRAINT badges_requirement_type_fkey
+  FOREIGN KEY (requirement_type) REFERENCES public.badge_requirement_types(type);
+
+INSERT INTO public.badges (name, description, icon, color, requirement_type, requirement_value) VALUES
+('Chatterbox', 'Sent 50 messages in study groups', '💬', '#0EA5E9', 'group_messages_sent', 50),
+('On a Roll', 'Earned points 7 days in a row', '🔥', '#DC2626', 'daily_streak', 7);
+
+-- Badges are only awarded by evaluate_badges
+DROP POLICY "System can award badges" ON public.user_badges;
+
+-- Compute a single counter for a user
+CREATE OR REPLACE FUNCTION public.get_badge_counter(p_user_id UUID, p_type TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  counter_sql TEXT;
+  result INTEGER;
+BEGIN
+  SELECT counter_query INTO counter_sql
+  FROM public.badge_requirement_types
+  WHERE type = p_type;
+
+  IF counter_sql IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  EXECUTE counter_sql INTO result USING p_user_id;
+  RETURN COALESCE(result, 0);
+END;
+$$;
+
+-- Award every newly met badge, optionally only those of the given types.
+-- Returns the number of badges awarded.
+CREATE OR REPLACE FUNCTION public.evaluate_badges(p_user_id UUID, p_types TEXT[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  badge RECORD;
+  counters JSONB := '{}'::jsonb;
+  current_value INTEGER;
+  awarded INTEGER := 0;
+BEGIN
+  FOR badge IN
+    SELECT b.*
+    FROM public.badges b
+    WHERE (p_types IS NULL OR b.requirement_type = ANY (p_types))
+      AND NOT EXISTS (
+        SELECT 1 FROM public.user_badges ub
+        WHERE ub.user_id = p_user_id AND ub.badge_id = b.id
+      )
+    ORDER BY b.requirement_value
+  LOOP
+    IF NOT counters ? badge.requirement_type THEN
+      counters := counters || jsonb_build_object(
+        badge.requirement_type,
+        public.get_badge_counter(p_user_id, badge.requirement_type)
+      );
+    END IF;
+    current_value := (counters ->> badge.requirement_type)::integer;
+
+    IF current_value >= badge.requirement_value THEN
+      INSERT INTO public.user_badges (user_id, badge_id)
+      VALUES (p_user_id, badge.id)
+      ON CONFLICT (user_id, badge_id) DO NOTHING;
+
+      IF FOUND THEN
+        awarded := awarded + 1;
+        INSERT INTO public.notifications (user_id, type, title, message, related_id)
+        VALUES (
+          p_user_id,
+          'points_earned',
+          'Badge earned: ' || badge.name,
+          badge.description,
+          badge.id
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN awarded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_badge_counter(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_badges(UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- Progress towards every badge for the current user, used by the profile
+-- page. Counters such as group_messages_sent cover private groups, so other
+-- users' progress is not exposed.
+CREATE OR REPLACE FUNCTION public.get_badge_progress(p_user_id UUID)
+RETURNS TABLE (
+  badge_id UUID,
+  current_value INTEGER,
+  requirement_value INTEGER,
+  earned_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only view your own badge progress';
+  END IF;
+
+  RETURN QUERY
+  WITH counters AS (
+    SELECT t.type, public.get_badge_counter(p_user_id, t.type) AS value
+    FROM public.badge_requirement_types t
+    WHERE EXISTS (SELECT 1 FROM public.badges b WHERE b.requirement_type = t.type)
+  )
+  SELECT b.id, c.value, b.requirement_value, ub.earned_at
+  FROM public.badges b
+  JOIN counters c ON c.type = b.requirement_type
+  LEFT JOIN public.user_badges ub ON ub.badge_id = b.id AND ub.user_id = p_user_id;
+END;
+$$;
+
+-- Generic trigger: re-check the row owner's badges. Trigger arguments, if
+-- any, restrict the check to those requirement types.
+CREATE OR REPLACE FUNCTION public.evaluate_badges_for_row()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_NARGS = 0 THEN
+    PERFORM public.evaluate_badges(NEW.user_id);
+  ELSE
+    PERFORM public.evaluate_badges(NEW.user_id, TG_ARGV::text[]);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Every ledger entry can change points, activity counters and streaks.
+-- Triggers fire in name order, so this runs after sync_profile_points_on_transaction.
+CREATE TRIGGER sync_user_badges_on_transaction
+AFTER INSERT ON public.point_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.evaluate_badges_for_row();
+
+CREATE TRIGGER sync_user_badges_on_message
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.evaluate_badges_for_row('group_messages_sent');
+
+-- Award badges already earned by existing users
+SELECT public.evaluate_badges(user_id) FROM public.profiles;
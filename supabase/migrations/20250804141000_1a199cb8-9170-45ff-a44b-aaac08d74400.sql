@@ -0,0 +1,208 @@
+-- Questions get the same up/down counters as answers
+ALTER TABLE public.questions ADD COLUMN downvotes INTEGER DEFAULT 0;
+
+-- One vote per user per question or answer
+CREATE TABLE public.votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+  target_id UUID NOT NULL,
+  value SMALLINT NOT NULL CHECK (value IN (-1, 1)),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, target_type, target_id)
+);
+
+CREATE INDEX idx_votes_target ON public.votes(target_type, target_id);
+
+-- Enable RLS
+ALTER TABLE public.votes ENABLE ROW LEVEL SECURITY;
+
+-- Users see their own votes; casting goes through cast_vote/retract_vote
+CREATE POLICY "Users can view their own votes"
+ON public.votes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_votes_updated_at
+BEFORE UPDATE ON public.votes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Vote counters, views and acceptance are maintained server-side, so
+-- clients may only update the authored columns
+REVOKE UPDATE ON public.questions FROM anon, authenticated;
+GRANT UPDATE (title, content, subject_id, difficulty, grade_level) ON public.questions TO authenticated;
+
+-- Count a view of a question. Anyone who can read questions may call it.
+CREATE OR REPLACE FUNCTION public.increment_question_view(p_question_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  UPDATE public.questions
+  SET view_count = COALESCE(view_count, 0) + 1
+  WHERE id = p_question_id;
+$$;
+
+-- Apply a vote change to the denormalized counters. Existing counts are kept
+-- as a baseline and adjusted by deltas.
+CREATE OR REPLACE FUNCTION public.apply_vote_counters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  vote_target_type TEXT := COALESCE(NEW.target_type, OLD.target_type);
+  vote_target_id UUID := COALESCE(NEW.target_id, OLD.target_id);
+  up_delta INTEGER := 0;
+  down_delta INTEGER := 0;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    IF OLD.value = 1 THEN up_delta := up_delta - 1; ELSE down_delta := down_delta - 1; END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.value = 1 THEN up_delta := up_delta + 1; ELSE down_delta := down_delta + 1; END IF;
+  END IF;
+
+  IF vote_target_type = 'question' THEN
+    UPDATE public.questions
+    SET upvotes = COALESCE(upvotes, 0) + up_delta,
+        downvotes = COALESCE(downvotes, 0) + down_delta
+    WHERE id = vote_target_id;
+  ELSE
+    UPDATE public.answers
+    SET upvotes = COALESCE(upvotes, 0) + up_delta,
+        downvotes = COALESCE(downvotes, 0) + down_delta
+    WHERE id = vote_target_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_vote_counters_on_change
+AFTER INSERT OR UPDATE OF value OR DELETE ON public.votes
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_vote_counters();
+
+-- Votes disappear with their target
+CREATE OR REPLACE FUNCTION public.delete_target_votes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM public.votes
+  WHERE target_type = TG_ARGV[0]
+    AND target_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_question_votes
+AFTER DELETE ON public.questions
+FOR EACH ROW
+EXECUTE FUNCTION public.delete_target_votes('question');
+
+CREATE TRIGGER delete_answer_votes
+AFTER DELETE ON public.answers
+FOR EACH ROW
+EXECUTE FUNCTION public.delete_target_votes('answer');
+
+-- Current counters for a target plus the caller's vote
+CREATE OR REPLACE FUNCTION public.get_vote_state(p_target_type TEXT, p_target_id UUID)
+RETURNS TABLE (upvotes INTEGER, downvotes INTEGER, user_vote INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_target_type = 'question' THEN
+    RETURN QUERY
+    SELECT COALESCE(q.upvotes, 0), COALESCE(q.downvotes, 0),
+      COALESCE((
+        SELECT v.value::integer FROM public.votes v
+        WHERE v.user_id = auth.uid() AND v.target_type = 'question' AND v.target_id = q.id
+      ), 0)
+    FROM public.questions q
+    WHERE q.id = p_target_id;
+  ELSE
+    RETURN QUERY
+    SELECT COALESCE(a.upvotes, 0), COALESCE(a.downvotes, 0),
+      COALESCE((
+        SELECT v.value::integer FROM public.votes v
+        WHERE v.user_id = auth.uid() AND v.target_type = 'answer' AND v.target_id = a.id
+      ), 0)
+    FROM public.answers a
+    WHERE a.id = p_target_id;
+  END IF;
+END;
+$$;
+
+-- Cast, flip or (with 0) retract the caller's vote
+CREATE OR REPLACE FUNCTION public.cast_vote(p_target_type TEXT, p_target_id UUID, p_value INTEGER)
+RETURNS TABLE (upvotes INTEGER, downvotes INTEGER, user_vote INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  target_author UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to vote';
+  END IF;
+
+  IF p_value NOT IN (-1, 0, 1) THEN
+    RAISE EXCEPTION 'Vote value must be -1, 0 or 1';
+  END IF;
+
+  IF p_target_type = 'question' THEN
+    SELECT q.user_id INTO target_author FROM public.questions q WHERE q.id = p_target_id;
+  ELSIF p_target_type = 'answer' THEN
+    SELECT a.user_id INTO target_author FROM public.answers a WHERE a.id = p_target_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid vote target type: %', p_target_type;
+  END IF;
+
+  IF target_author IS NULL THEN
+    RAISE EXCEPTION 'Vote target not found';
+  END IF;
+
+  IF target_author = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot vote on your own post';
+  END IF;
+
+  IF p_value = 0 THEN
+    DELETE FROM public.votes v
+    WHERE v.user_id = auth.uid()
+      AND v.target_type = p_target_type
+      AND v.target_id = p_target_id;
+  ELSE
+    INSERT INTO public.votes AS v (user_id, target_type, target_id, value)
+    VALUES (auth.uid(), p_target_type, p_target_id, p_value)
+    ON CONFLICT (user_id, target_type, target_id)
+    DO UPDATE SET value = EXCLUDED.value
+    WHERE v.value IS DISTINCT FROM EXCLUDED.value;
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.get_vote_state(p_target_type, p_target_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.retract_vote(p_target_type TEXT, p_target_id UUID)
+RETURNS TABLE (upvotes INTEGER, downvotes INTEGER, user_vote INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY SELECT * FROM public.cast_vote(p_target_type, p_target_id, 0);
+END;
+$$;
@@ -0,0 +1,56 @@
+-- Log of AI suggestion requests, used to rate limit the ai-suggestions function
+CREATE TABLE public.ai_suggestion_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_suggestion_requests_user_created
+ON public.ai_suggestion_requests(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.ai_suggestion_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI suggestion requests"
+ON public.ai_suggestion_requests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Record a request for the caller if they are under the limit for the
+-- window. Returns false when the limit has been reached.
+CREATE OR REPLACE FUNCTION public.consume_ai_suggestion_quota(
+  p_type TEXT,
+  p_limit INTEGER,
+  p_window_minutes INTEGER DEFAULT 60
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  recent_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to request suggestions';
+  END IF;
+
+  -- Serialize concurrent requests from the same user
+  PERFORM pg_advisory_xact_lock(hashtext('ai_suggestions:' || auth.uid()::text));
+
+  SELECT count(*) INTO recent_count
+  FROM public.ai_suggestion_requests
+  WHERE user_id = auth.uid()
+    AND created_at > now() - make_interval(mins => p_window_minutes);
+
+  IF recent_count >= p_limit THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.ai_suggestion_requests (user_id, type)
+  VALUES (auth.uid(), p_type);
+
+  RETURN true;
+END;
+$$;
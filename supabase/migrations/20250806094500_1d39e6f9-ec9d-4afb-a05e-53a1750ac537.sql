@@ -0,0 +1,207 @@
+-- Private buckets for shared resources and group chat attachments.
+-- Objects are stored as <user_id>/<file> in resources and
+-- <group_id>/<user_id>/<file> in chat-attachments; the tables keep the
+-- object path in file_url and the app hands out signed URLs.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES
+  ('resources', 'resources', false, 10485760),
+  ('chat-attachments', 'chat-attachments', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies mirror the resources table: anyone can read, owners write
+CREATE POLICY "Resource files are viewable by everyone"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'resources');
+
+CREATE POLICY "Users can upload resource files to their own folder"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'resources'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own resource files"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'resources'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- ...and the messages table: group members read, members upload as themselves
+CREATE POLICY "Group members can view chat attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.group_members gm
+    WHERE gm.group_id::text = (storage.foldername(name))[1]
+    AND gm.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Group members can upload chat attachments"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+  AND EXISTS (
+    SELECT 1 FROM public.group_members gm
+    WHERE gm.group_id::text = (storage.foldername(name))[1]
+    AND gm.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own chat attachments"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
+
+-- Owners can remove their resources. Rows may only point at files in the
+-- owner's own folder, since deleting a row also deletes its file.
+DROP POLICY "Users can upload resources" ON public.resources;
+DROP POLICY "Users can update their own resources" ON public.resources;
+
+CREATE POLICY "Users can upload resources"
+ON public.resources
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (file_url IS NULL OR file_url LIKE auth.uid()::text || '/%')
+);
+
+CREATE POLICY "Users can update their own resources"
+ON public.resources
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (file_url IS NULL OR file_url LIKE auth.uid()::text || '/%')
+);
+
+CREATE POLICY "Users can delete their own resources"
+ON public.resources
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Objects waiting to be removed by the storage-cleanup function. Objects can
+-- only be deleted through the Storage API, so triggers queue them here.
+CREATE TABLE public.storage_deletions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bucket_id TEXT NOT NULL,
+  object_path TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(bucket_id, object_path)
+);
+
+-- Only the service role works with the queue
+ALTER TABLE public.storage_deletions ENABLE ROW LEVEL SECURITY;
+
+-- Queue the object behind a file_url column when its row is deleted or the
+-- file is replaced. Legacy rows hold full URLs and are skipped, as are paths
+-- outside the row owner's folder so a row can't get someone else's file
+-- deleted.
+CREATE OR REPLACE FUNCTION public.queue_storage_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  owner_folder TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.file_url IS NOT DISTINCT FROM OLD.file_url THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'messages' THEN
+    owner_folder := OLD.group_id::text || '/' || OLD.user_id::text || '/';
+  ELSE
+    owner_folder := OLD.user_id::text || '/';
+  END IF;
+
+  IF OLD.file_url IS NOT NULL
+    AND OLD.file_url !~ '^https?://'
+    AND starts_with(OLD.file_url, owner_folder) THEN
+    INSERT INTO public.storage_deletions (bucket_id, object_path)
+    VALUES (TG_ARGV[0], OLD.file_url)
+    ON CONFLICT (bucket_id, object_path) DO NOTHING;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER queue_resource_file_deletion
+AFTER DELETE OR UPDATE OF file_url ON public.resources
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_storage_deletion('resources');
+
+CREATE TRIGGER queue_message_attachment_deletion
+AFTER DELETE OR UPDATE OF file_url ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_storage_deletion('chat-attachments');
+
+-- Queue objects that were uploaded but never attached to a row, e.g. when
+-- the user abandoned the form after the upload finished
+CREATE OR REPLACE FUNCTION public.queue_orphaned_storage_objects(p_older_than INTERVAL DEFAULT INTERVAL '1 day')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  queued INTEGER;
+BEGIN
+  INSERT INTO public.storage_deletions (bucket_id, object_path)
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.created_at < now() - p_older_than
+    AND (
+      (o.bucket_id = 'resources'
+        AND NOT EXISTS (SELECT 1 FROM public.resources r WHERE r.file_url = o.name))
+      OR (o.bucket_id = 'chat-attachments'
+        AND NOT EXISTS (SELECT 1 FROM public.messages m WHERE m.file_url = o.name))
+    )
+  ON CONFLICT (bucket_id, object_path) DO NOTHING;
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_orphaned_storage_objects(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Run the storage-cleanup function hourly. Requires the project_url and
+-- service_role_key secrets to exist in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'storage-cleanup',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/storage-cleanup',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,28 @@
+-- Attachment metadata for file messages, used to render thumbnails and cards
+ALTER TABLE public.messages
+ADD COLUMN file_type TEXT,
+ADD COLUMN file_size BIGINT;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_file_attachment_check
+CHECK (message_type IS DISTINCT FROM 'file' OR file_url IS NOT NULL);
+
+-- Attachments must live in the sender's folder for this group in the
+-- chat-attachments bucket, so a message can't point at another group's files
+DROP POLICY "Group members can create messages" ON public.messages;
+
+CREATE POLICY "Group members can create messages"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = messages.group_id
+    AND gm.user_id = auth.uid()
+  )
+  AND (
+    file_url IS NULL
+    OR file_url LIKE messages.group_id::text || '/' || auth.uid()::text || '/%'
+  )
+);
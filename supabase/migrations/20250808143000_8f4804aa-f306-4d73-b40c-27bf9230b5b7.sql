@@ -0,0 +1,151 @@
+-- Full-text search vectors. Titles and names weigh more than body text.
+ALTER TABLE public.questions
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(content, '')), 'B')
+) STORED;
+
+ALTER TABLE public.answers
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(content, '')), 'B')
+) STORED;
+
+ALTER TABLE public.resources
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+
+ALTER TABLE public.study_groups
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX idx_questions_search_vector ON public.questions USING GIN (search_vector);
+CREATE INDEX idx_answers_search_vector ON public.answers USING GIN (search_vector);
+CREATE INDEX idx_resources_search_vector ON public.resources USING GIN (search_vector);
+CREATE INDEX idx_study_groups_search_vector ON public.study_groups USING GIN (search_vector);
+
+-- Ranked search across questions, answers, resources and study groups.
+-- Snippets wrap matches in <mark> tags. Difficulty and resolved filters only
+-- apply to questions and answers, so other types are left out when they are
+-- set. Runs as the caller so table policies still decide what is visible.
+CREATE OR REPLACE FUNCTION public.search_content(
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_subject_id UUID DEFAULT NULL,
+  p_difficulty public.difficulty_level DEFAULT NULL,
+  p_is_resolved BOOLEAN DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  question_id UUID,
+  title TEXT,
+  snippet TEXT,
+  subject_id UUID,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH search AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS query,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10' AS options,
+      p_difficulty IS NULL AND p_is_resolved IS NULL AS include_non_qa
+  ),
+  results AS (
+    SELECT
+      'question' AS result_type,
+      q.id,
+      q.id AS question_id,
+      q.title,
+      q.content AS body,
+      q.subject_id,
+      ts_rank(q.search_vector, s.query) AS rank,
+      q.created_at
+    FROM public.questions q, search s
+    WHERE q.search_vector @@ s.query
+      AND (p_types IS NULL OR 'question' = ANY(p_types))
+      AND (p_subject_id IS NULL OR q.subject_id = p_subject_id)
+      AND (p_difficulty IS NULL OR q.difficulty = p_difficulty)
+      AND (p_is_resolved IS NULL OR q.is_resolved = p_is_resolved)
+
+    UNION ALL
+
+    SELECT
+      'answer',
+      a.id,
+      q.id,
+      q.title,
+      a.content,
+      q.subject_id,
+      ts_rank(a.search_vector, s.query),
+      a.created_at
+    FROM public.answers a
+    JOIN public.questions q ON q.id = a.question_id, search s
+    WHERE a.search_vector @@ s.query
+      AND (p_types IS NULL OR 'answer' = ANY(p_types))
+      AND (p_subject_id IS NULL OR q.subject_id = p_subject_id)
+      AND (p_difficulty IS NULL OR q.difficulty = p_difficulty)
+      AND (p_is_resolved IS NULL OR q.is_resolved = p_is_resolved)
+
+    UNION ALL
+
+    SELECT
+      'resource',
+      r.id,
+      NULL,
+      r.title,
+      coalesce(r.description, r.title),
+      r.subject_id,
+      ts_rank(r.search_vector, s.query),
+      r.created_at
+    FROM public.resources r, search s
+    WHERE s.include_non_qa
+      AND r.search_vector @@ s.query
+      AND (p_types IS NULL OR 'resource' = ANY(p_types))
+      AND (p_subject_id IS NULL OR r.subject_id = p_subject_id)
+
+    UNION ALL
+
+    SELECT
+      'group',
+      g.id,
+      NULL,
+      g.name,
+      coalesce(g.description, g.name),
+      g.subject_id,
+      ts_rank(g.search_vector, s.query),
+      g.created_at
+    FROM public.study_groups g, search s
+    WHERE s.include_non_qa
+      AND g.search_vector @@ s.query
+      AND (p_types IS NULL OR 'group' = ANY(p_types))
+      AND (p_subject_id IS NULL OR g.subject_id = p_subject_id)
+  )
+  -- Headlines are expensive, so only build them for the page being returned
+  SELECT
+    r.result_type,
+    r.id,
+    r.question_id,
+    r.title,
+    ts_headline('english', r.body, s.query, s.options),
+    r.subject_id,
+    r.rank,
+    r.created_at
+  FROM (
+    SELECT *
+    FROM results
+    ORDER BY rank DESC, created_at DESC
+    LIMIT LEAST(p_limit, 50)
+    OFFSET p_offset
+  ) r, search s
+  ORDER BY r.rank DESC, r.created_at DESC;
+$$;
@@ -0,0 +1,51 @@
+-- Answer count maintained by trigger so the question feed doesn't have to
+-- load every answer to count them
+ALTER TABLE public.questions ADD COLUMN answer_count INTEGER NOT NULL DEFAULT 0;
+
+-- Net score used by the "most voted" sort
+ALTER TABLE public.questions
+ADD COLUMN vote_score INTEGER GENERATED ALWAYS AS (coalesce(upvotes, 0) - coalesce(downvotes, 0)) STORED;
+
+CREATE OR REPLACE FUNCTION public.sync_question_answer_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE public.questions
+    SET answer_count = answer_count + 1
+    WHERE id = NEW.question_id;
+  END IF;
+
+  IF TG_OP IN ('DELETE', 'UPDATE') THEN
+    UPDATE public.questions
+    SET answer_count = GREATEST(answer_count - 1, 0)
+    WHERE id = OLD.question_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_question_answer_count
+AFTER INSERT OR DELETE OR UPDATE OF question_id ON public.answers
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_question_answer_count();
+
+-- Backfill existing questions
+UPDATE public.questions q
+SET answer_count = counts.total
+FROM (
+  SELECT question_id, count(*) AS total
+  FROM public.answers
+  GROUP BY question_id
+) counts
+WHERE counts.question_id = q.id;
+
+-- Keyset pagination indexes for each feed ordering
+CREATE INDEX idx_questions_feed_newest ON public.questions(created_at DESC, id DESC);
+CREATE INDEX idx_questions_feed_votes ON public.questions(vote_score DESC, created_at DESC, id DESC);
+CREATE INDEX idx_questions_feed_unanswered ON public.questions(created_at DESC, id DESC) WHERE answer_count = 0;
+CREATE INDEX idx_questions_feed_resolved ON public.questions(created_at DESC, id DESC) WHERE is_resolved = true;
@@ -0,0 +1,214 @@
+-- Normalized tag names: lowercase, hyphen-separated, e.g. "Linear Algebra" -> "linear-algebra"
+CREATE OR REPLACE FUNCTION public.normalize_tag(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  -- Truncate before trimming so a cut at a separator can't leave a trailing hyphen
+  SELECT trim(BOTH '-' FROM left(regexp_replace(lower(trim(p_name)), '[^a-z0-9+#.]+', '-', 'g'), 30));
+$$;
+
+-- Free-form tags for questions and resources, alongside the single subject
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (name = public.normalize_tag(name) AND name <> ''),
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  follower_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_tags_name_pattern ON public.tags(name text_pattern_ops);
+
+CREATE TABLE public.question_tags (
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (question_id, tag_id)
+);
+
+CREATE INDEX idx_question_tags_tag ON public.question_tags(tag_id);
+
+CREATE TABLE public.resource_tags (
+  resource_id UUID NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (resource_id, tag_id)
+);
+
+CREATE INDEX idx_resource_tags_tag ON public.resource_tags(tag_id);
+
+CREATE TABLE public.tag_follows (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, tag_id)
+);
+
+CREATE INDEX idx_tag_follows_tag ON public.tag_follows(tag_id);
+
+-- Enable RLS
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resource_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tag_follows ENABLE ROW LEVEL SECURITY;
+
+-- Tags and their links are public; they are written through set_content_tags
+CREATE POLICY "Tags are viewable by everyone"
+ON public.tags
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Question tags are viewable by everyone"
+ON public.question_tags
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Resource tags are viewable by everyone"
+ON public.resource_tags
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can view their own tag follows"
+ON public.tag_follows
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can follow tags"
+ON public.tag_follows
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfollow tags"
+ON public.tag_follows
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Keep tags.usage_count in step with both join tables
+CREATE OR REPLACE FUNCTION public.sync_tag_usage_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.tags SET usage_count = usage_count + 1 WHERE id = NEW.tag_id;
+  ELSE
+    UPDATE public.tags SET usage_count = GREATEST(usage_count - 1, 0) WHERE id = OLD.tag_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_question_tag_usage
+AFTER INSERT OR DELETE ON public.question_tags
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_tag_usage_count();
+
+CREATE TRIGGER sync_resource_tag_usage
+AFTER INSERT OR DELETE ON public.resource_tags
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_tag_usage_count();
+
+-- Follows are private, so the follower count is kept on the tag
+CREATE OR REPLACE FUNCTION public.sync_tag_follower_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.tags SET follower_count = follower_count + 1 WHERE id = NEW.tag_id;
+  ELSE
+    UPDATE public.tags SET follower_count = GREATEST(follower_count - 1, 0) WHERE id = OLD.tag_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_tag_follower_count
+AFTER INSERT OR DELETE ON public.tag_follows
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_tag_follower_count();
+
+-- Replace the tags on a question or resource owned by the caller, creating
+-- any tags that don't exist yet. Returns the tags now attached.
+CREATE OR REPLACE FUNCTION public.set_content_tags(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_tags TEXT[]
+)
+RETURNS SETOF public.tags
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  owner_id UUID;
+  tag_names TEXT[];
+  tag_ids UUID[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to tag content';
+  END IF;
+
+  IF p_target_type = 'question' THEN
+    SELECT q.user_id INTO owner_id FROM public.questions q WHERE q.id = p_target_id;
+  ELSIF p_target_type = 'resource' THEN
+    SELECT r.user_id INTO owner_id FROM public.resources r WHERE r.id = p_target_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid tag target type: %', p_target_type;
+  END IF;
+
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'Tag target not found';
+  END IF;
+
+  IF owner_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only tag your own content';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT normalized), '{}') INTO tag_names
+  FROM (
+    SELECT public.normalize_tag(raw) AS normalized
+    FROM unnest(coalesce(p_tags, '{}')) AS raw
+  ) names
+  WHERE normalized <> '';
+
+  IF cardinality(tag_names) > 5 THEN
+    RAISE EXCEPTION 'Content can have at most 5 tags';
+  END IF;
+
+  INSERT INTO public.tags (name, created_by)
+  SELECT unnest(tag_names), auth.uid()
+  ON CONFLICT (name) DO NOTHING;
+
+  SELECT coalesce(array_agg(t.id), '{}') INTO tag_ids
+  FROM public.tags t
+  WHERE t.name = ANY(tag_names);
+
+  IF p_target_type = 'question' THEN
+    DELETE FROM public.question_tags
+    WHERE question_id = p_target_id AND NOT (tag_id = ANY(tag_ids));
+
+    INSERT INTO public.question_tags (question_id, tag_id)
+    SELECT p_target_id, unnest(tag_ids)
+    ON CONFLICT DO NOTHING;
+  ELSE
+    DELETE FROM public.resource_tags
+    WHERE resource_id = p_target_id AND NOT (tag_id = ANY(tag_ids));
+
+    INSERT INTO public.resource_tags (resource_id, tag_id)
+    SELECT p_target_id, unnest(tag_ids)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN QUERY
+  SELECT t.* FROM public.tags t WHERE t.id = ANY(tag_ids) ORDER BY t.name;
+END;
+$$;
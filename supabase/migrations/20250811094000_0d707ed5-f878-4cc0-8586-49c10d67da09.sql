@@ -0,0 +1,196 @@
+-- Comments for clarifications on questions and answers. Replies point at a
+-- parent comment on the same target; deleting only blanks a comment so its
+-- replies stay in place.
+CREATE TABLE public.comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+  answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT comments_single_target CHECK ((question_id IS NULL) <> (answer_id IS NULL)),
+  CONSTRAINT comments_content_length CHECK (
+    deleted_at IS NOT NULL OR char_length(btrim(content)) BETWEEN 1 AND 2000
+  )
+);
+
+CREATE INDEX idx_comments_question ON public.comments(question_id, created_at) WHERE question_id IS NOT NULL;
+CREATE INDEX idx_comments_answer ON public.comments(answer_id, created_at) WHERE answer_id IS NOT NULL;
+CREATE INDEX idx_comments_parent ON public.comments(parent_id);
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Comments are viewable by everyone"
+ON public.comments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can create comments"
+ON public.comments
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND deleted_at IS NULL);
+
+CREATE POLICY "Users can update their own comments"
+ON public.comments
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Authors edit the text or soft delete; targets and threading are fixed
+REVOKE UPDATE ON public.comments FROM anon, authenticated;
+GRANT UPDATE (content, deleted_at) ON public.comments TO authenticated;
+
+CREATE TRIGGER update_comments_updated_at
+BEFORE UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep replies on their parent's target and freeze deleted comments
+CREATE OR REPLACE FUNCTION public.validate_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Deleted comments cannot be changed';
+    END IF;
+
+    IF NEW.deleted_at IS NOT NULL THEN
+      NEW.deleted_at := now();
+      NEW.content := '';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT c.question_id, c.answer_id, c.deleted_at INTO parent
+    FROM public.comments c
+    WHERE c.id = NEW.parent_id;
+
+    IF NOT FOUND OR parent.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'The comment you are replying to no longer exists';
+    END IF;
+
+    IF parent.question_id IS DISTINCT FROM NEW.question_id
+      OR parent.answer_id IS DISTINCT FROM NEW.answer_id THEN
+      RAISE EXCEPTION 'Replies must be on the same question or answer as their parent';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_comment
+BEFORE INSERT OR UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_comment();
+
+-- Mentions are stored inline as @[Display Name](user-uuid)
+CREATE OR REPLACE FUNCTION public.extract_mentions(p_content TEXT)
+RETURNS UUID[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT coalesce(array_agg(DISTINCT lower(m[1])::uuid), '{}')
+  FROM regexp_matches(
+    coalesce(p_content, ''),
+    '@\[[^\]]+\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)',
+    'gi'
+  ) AS m;
+$$;
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check CHECK (
+  type IN ('question_answered', 'answer_accepted', 'group_invitation', 'resource_shared', 'points_earned', 'comment_added', 'mention')
+);
+
+-- Notify the author of whatever was commented on, and anyone newly
+-- mentioned. Notifications point at the question so they can link to it.
+CREATE OR REPLACE FUNCTION public.notify_comment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_question_id UUID;
+  v_question_title TEXT;
+  v_author_name TEXT;
+  v_recipient UUID;
+  v_excerpt TEXT;
+  v_previous UUID[] := '{}';
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.question_id IS NOT NULL THEN
+    v_question_id := NEW.question_id;
+  ELSE
+    SELECT a.question_id INTO v_question_id FROM public.answers a WHERE a.id = NEW.answer_id;
+  END IF;
+
+  SELECT q.title INTO v_question_title FROM public.questions q WHERE q.id = v_question_id;
+  SELECT p.full_name INTO v_author_name FROM public.profiles p WHERE p.user_id = NEW.user_id;
+  v_author_name := coalesce(v_author_name, 'Someone');
+  v_excerpt := left(regexp_replace(NEW.content, '@\[([^\]]+)\]\([^)]*\)', '@\1', 'g'), 140);
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.parent_id IS NOT NULL THEN
+      SELECT c.user_id INTO v_recipient FROM public.comments c WHERE c.id = NEW.parent_id;
+    ELSIF NEW.answer_id IS NOT NULL THEN
+      SELECT a.user_id INTO v_recipient FROM public.answers a WHERE a.id = NEW.answer_id;
+    ELSE
+      SELECT q.user_id INTO v_recipient FROM public.questions q WHERE q.id = NEW.question_id;
+    END IF;
+
+    IF v_recipient IS NOT NULL AND v_recipient <> NEW.user_id THEN
+      INSERT INTO public.notifications (user_id, type, title, message, related_id)
+      VALUES (
+        v_recipient,
+        'comment_added',
+        CASE
+          WHEN NEW.parent_id IS NOT NULL THEN v_author_name || ' replied to your comment'
+          WHEN NEW.answer_id IS NOT NULL THEN v_author_name || ' commented on your answer'
+          ELSE v_author_name || ' commented on your question'
+        END,
+        v_excerpt,
+        v_question_id
+      );
+    END IF;
+  ELSE
+    v_previous := public.extract_mentions(OLD.content);
+  END IF;
+
+  -- Edits only notify people who weren't mentioned before, and the
+  -- recipient above already heard about this comment
+  INSERT INTO public.notifications (user_id, type, title, message, related_id)
+  SELECT
+    p.user_id,
+    'mention',
+    v_author_name || ' mentioned you on "' || left(coalesce(v_question_title, 'a question'), 80) || '"',
+    v_excerpt,
+    v_question_id
+  FROM public.profiles p
+  WHERE p.user_id = ANY (public.extract_mentions(NEW.content))
+    AND NOT p.user_id = ANY (v_previous)
+    AND p.user_id <> NEW.user_id
+    AND p.user_id IS DISTINCT FROM v_recipient;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_comment_activity
+AFTER INSERT OR UPDATE OF content ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_comment_activity();
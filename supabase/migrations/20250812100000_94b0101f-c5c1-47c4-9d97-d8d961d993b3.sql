@@ -0,0 +1,397 @@
+-- Notifications are now created only by database triggers through
+-- create_notification, which applies opt-outs and coalescing.
+--
+-- related_id by type:
+--   question_answered, answer_accepted, comment_added, mention -> question
+--   group_invitation -> study group
+--   resource_shared -> resource
+--   points_earned -> badge
+
+-- Repeat events on the same item merge into one unread notification
+ALTER TABLE public.notifications ADD COLUMN event_count INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX idx_notifications_unread
+ON public.notifications(user_id, type, related_id)
+WHERE NOT coalesce(is_read, false);
+
+CREATE INDEX idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+
+DROP POLICY "System can create notifications" ON public.notifications;
+
+-- Per-type opt-outs; a missing row means the type is enabled
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+ON public.notification_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create a notification unless the recipient opted out of the type.
+-- Callers skip notifying users about their own actions. An unread
+-- notification of the same type for the same item absorbs the new event
+-- instead: its count goes up, it moves back to the top, and its title
+-- becomes p_coalesced_title (a format() string receiving the count) when
+-- one is given. Returns the notification id, or NULL if skipped.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_related_id UUID,
+  p_coalesced_title TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  existing RECORD;
+  notification_id UUID;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.notification_preferences np
+    WHERE np.user_id = p_user_id AND np.type = p_type AND NOT np.enabled
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT n.id, n.event_count INTO existing
+  FROM public.notifications n
+  WHERE n.user_id = p_user_id
+    AND n.type = p_type
+    AND n.related_id IS NOT DISTINCT FROM p_related_id
+    AND NOT coalesce(n.is_read, false)
+  ORDER BY n.created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    UPDATE public.notifications
+    SET event_count = existing.event_count + 1,
+        title = CASE
+          WHEN p_coalesced_title IS NULL THEN p_title
+          ELSE format(p_coalesced_title, existing.event_count + 1)
+        END,
+        message = p_message,
+        created_at = now()
+    WHERE id = existing.id;
+
+    RETURN existing.id;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, message, related_id)
+  VALUES (p_user_id, p_type, p_title, p_message, p_related_id)
+  RETURNING id INTO notification_id;
+
+  RETURN notification_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Question author hears about new answers
+CREATE OR REPLACE FUNCTION public.notify_question_answered()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  question RECORD;
+  author_name TEXT;
+BEGIN
+  SELECT q.user_id, q.title INTO question
+  FROM public.questions q
+  WHERE q.id = NEW.question_id;
+
+  IF question.user_id = NEW.user_id THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT p.full_name INTO author_name FROM public.profiles p WHERE p.user_id = NEW.user_id;
+
+  PERFORM public.create_notification(
+    question.user_id,
+    'question_answered',
+    'New answer on "' || left(question.title, 80) || '"',
+    coalesce(author_name, 'Someone') || ': ' || left(NEW.content, 140),
+    NEW.question_id,
+    '%s new answers on "' || replace(left(question.title, 80), '%', '%%') || '"'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_question_answered
+AFTER INSERT ON public.answers
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_question_answered();
+
+-- Answer author hears when their answer is accepted
+CREATE OR REPLACE FUNCTION public.notify_answer_accepted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  question_title TEXT;
+BEGIN
+  -- The question author accepted their own answer
+  IF NEW.user_id = auth.uid() THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT q.title INTO question_title FROM public.questions q WHERE q.id = NEW.question_id;
+
+  PERFORM public.create_notification(
+    NEW.user_id,
+    'answer_accepted',
+    'Your answer was accepted',
+    'Your answer to "' || left(coalesce(question_title, 'a question'), 80) || '" was marked as the accepted answer.',
+    NEW.question_id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_answer_accepted
+AFTER UPDATE OF is_accepted ON public.answers
+FOR EACH ROW
+WHEN (NEW.is_accepted AND NOT coalesce(OLD.is_accepted, false))
+EXECUTE FUNCTION public.notify_answer_accepted();
+
+-- Someone other than the member added them to a group
+CREATE OR REPLACE FUNCTION public.notify_group_invitation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  group_name TEXT;
+  inviter_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = NEW.user_id THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT g.name INTO group_name FROM public.study_groups g WHERE g.id = NEW.group_id;
+  SELECT p.full_name INTO inviter_name FROM public.profiles p WHERE p.user_id = auth.uid();
+
+  PERFORM public.create_notification(
+    NEW.user_id,
+    'group_invitation',
+    'You were added to ' || coalesce(group_name, 'a study group'),
+    coalesce(inviter_name, 'A group admin') || ' added you to the group.',
+    NEW.group_id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_group_invitation
+AFTER INSERT ON public.group_members
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_group_invitation();
+
+-- Followers of a tag hear about resources shared with it, once per resource
+CREATE OR REPLACE FUNCTION public.notify_resource_shared()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  resource RECORD;
+  tag_name TEXT;
+BEGIN
+  SELECT r.user_id, r.title INTO resource FROM public.resources r WHERE r.id = NEW.resource_id;
+  SELECT t.name INTO tag_name FROM public.tags t WHERE t.id = NEW.tag_id;
+
+  PERFORM public.create_notification(
+    f.user_id,
+    'resource_shared',
+    'New resource in #' || tag_name,
+    resource.title,
+    NEW.resource_id
+  )
+  FROM public.tag_follows f
+  WHERE f.tag_id = NEW.tag_id
+    AND f.user_id <> resource.user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.user_id = f.user_id
+        AND n.type = 'resource_shared'
+        AND n.related_id = NEW.resource_id
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_resource_shared
+AFTER INSERT ON public.resource_tags
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_resource_shared();
+
+-- Route the existing notification sources through create_notification
+CREATE OR REPLACE FUNCTION public.evaluate_badges(p_user_id UUID, p_types TEXT[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  badge RECORD;
+  counters JSONB := '{}'::jsonb;
+  current_value INTEGER;
+  awarded INTEGER := 0;
+BEGIN
+  FOR badge IN
+    SELECT b.*
+    FROM public.badges b
+    WHERE (p_types IS NULL OR b.requirement_type = ANY (p_types))
+      AND NOT EXISTS (
+        SELECT 1 FROM public.user_badges ub
+        WHERE ub.user_id = p_user_id AND ub.badge_id = b.id
+      )
+    ORDER BY b.requirement_value
+  LOOP
+    IF NOT counters ? badge.requirement_type THEN
+      counters := counters || jsonb_build_object(
+        badge.requirement_type,
+        public.get_badge_counter(p_user_id, badge.requirement_type)
+      );
+    END IF;
+    current_value := (counters ->> badge.requirement_type)::integer;
+
+    IF current_value >= badge.requirement_value THEN
+      INSERT INTO public.user_badges (user_id, badge_id)
+      VALUES (p_user_id, badge.id)
+      ON CONFLICT (user_id, badge_id) DO NOTHING;
+
+      IF FOUND THEN
+        awarded := awarded + 1;
+        PERFORM public.create_notification(
+          p_user_id,
+          'points_earned',
+          'Badge earned: ' || badge.name,
+          badge.description,
+          badge.id
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN awarded;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_comment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_question_id UUID;
+  v_question_title TEXT;
+  v_author_name TEXT;
+  v_recipient UUID;
+  v_excerpt TEXT;
+  v_previous UUID[] := '{}';
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.question_id IS NOT NULL THEN
+    v_question_id := NEW.question_id;
+  ELSE
+    SELECT a.question_id INTO v_question_id FROM public.answers a WHERE a.id = NEW.answer_id;
+  END IF;
+
+  SELECT q.title INTO v_question_title FROM public.questions q WHERE q.id = v_question_id;
+  SELECT p.full_name INTO v_author_name FROM public.profiles p WHERE p.user_id = NEW.user_id;
+  v_author_name := coalesce(v_author_name, 'Someone');
+  v_question_title := left(coalesce(v_question_title, 'a question'), 80);
+  v_excerpt := left(regexp_replace(NEW.content, '@\[([^\]]+)\]\([^)]*\)', '@\1', 'g'), 140);
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.parent_id IS NOT NULL THEN
+      SELECT c.user_id INTO v_recipient FROM public.comments c WHERE c.id = NEW.parent_id;
+    ELSIF NEW.answer_id IS NOT NULL THEN
+      SELECT a.user_id INTO v_recipient FROM public.answers a WHERE a.id = NEW.answer_id;
+    ELSE
+      SELECT q.user_id INTO v_recipient FROM public.questions q WHERE q.id = NEW.question_id;
+    END IF;
+
+    IF v_recipient <> NEW.user_id THEN
+      PERFORM public.create_notification(
+        v_recipient,
+        'comment_added',
+        CASE
+          WHEN NEW.parent_id IS NOT NULL THEN v_author_name || ' replied to your comment'
+          WHEN NEW.answer_id IS NOT NULL THEN v_author_name || ' commented on your answer'
+          ELSE v_author_name || ' commented on your question'
+        END,
+        v_excerpt,
+        v_question_id,
+        '%s new comments on "' || replace(v_question_title, '%', '%%') || '"'
+      );
+    END IF;
+  ELSE
+    v_previous := public.extract_mentions(OLD.content);
+  END IF;
+
+  -- Edits only notify people who weren't mentioned before, and the
+  -- recipient above already heard about this comment
+  PERFORM public.create_notification(
+    p.user_id,
+    'mention',
+    v_author_name || ' mentioned you on "' || v_question_title || '"',
+    v_excerpt,
+    v_question_id,
+    '%s mentions on "' || replace(v_question_title, '%', '%%') || '"'
+  )
+  FROM public.profiles p
+  WHERE p.user_id = ANY (public.extract_mentions(NEW.content))
+    AND NOT p.user_id = ANY (v_previous)
+    AND p.user_id <> NEW.user_id
+    AND p.user_id IS DISTINCT FROM v_recipient;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Stream notifications to the navigation bell
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+
+-- Clients only mark notifications as read; everything else comes from
+-- create_notification
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (is_read) ON public.notifications TO authenticated;
@@ -0,0 +1,32 @@
+-- Email digests of unread notifications, sent by the notification-digest
+-- function at the frequency each user picks
+ALTER TABLE public.profiles
+ADD COLUMN digest_frequency TEXT NOT NULL DEFAULT 'off' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+ADD COLUMN last_digest_sent_at TIMESTAMP WITH TIME ZONE,
+-- Set on every run that reaches the user, including failed sends, so users
+-- whose digests keep failing move to the back of the queue
+ADD COLUMN last_digest_attempt_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_profiles_digest ON public.profiles(digest_frequency, last_digest_sent_at)
+WHERE digest_frequency <> 'off';
+
+-- last_digest_sent_at and last_digest_attempt_at are only written by the
+-- digest function
+GRANT UPDATE (digest_frequency) ON public.profiles TO authenticated;
+
+-- Run the digest hourly; each user is only emailed once their period has
+-- passed. Requires the project_url and service_role_key secrets in Vault.
+SELECT cron.schedule(
+  'notification-digest',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/notification-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
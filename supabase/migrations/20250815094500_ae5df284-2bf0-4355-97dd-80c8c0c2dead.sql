@@ -0,0 +1,136 @@
+-- Role of the current user in a group, or NULL if they aren't a member.
+-- SECURITY DEFINER so group_members policies can use it without recursing.
+CREATE OR REPLACE FUNCTION public.get_group_role(p_group_id UUID)
+RETURNS public.group_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT gm.role
+  FROM public.group_members gm
+  WHERE gm.group_id = p_group_id
+    AND gm.user_id = auth.uid();
+$$;
+
+-- Joining used to accept any role, so anyone could join as an admin. Only
+-- the creator may add themselves as admin, when setting up the group.
+DROP POLICY "Users can join groups" ON public.group_members;
+
+CREATE POLICY "Users can join groups"
+ON public.group_members
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    role = 'member'
+    OR (
+      role = 'admin'
+      AND EXISTS (
+        SELECT 1 FROM public.study_groups g
+        WHERE g.id = group_id AND g.creator_id = auth.uid()
+      )
+    )
+  )
+);
+
+CREATE POLICY "Admins can change member roles"
+ON public.group_members
+FOR UPDATE
+USING (public.get_group_role(group_id) = 'admin')
+WITH CHECK (public.get_group_role(group_id) = 'admin');
+
+-- Members can leave, admins can remove anyone and moderators can remove
+-- plain members
+CREATE POLICY "Members can leave and be removed by admins"
+ON public.group_members
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR public.get_group_role(group_id) = 'admin'
+  OR (public.get_group_role(group_id) = 'moderator' AND role = 'member')
+);
+
+REVOKE UPDATE ON public.group_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.group_members TO authenticated;
+
+-- The owner (study_groups.creator_id) always stays an admin member; ownership
+-- has to be transferred before they can step down or leave
+CREATE OR REPLACE FUNCTION public.protect_group_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- The group itself is being deleted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.study_groups g
+    WHERE g.id = OLD.group_id AND g.creator_id = OLD.user_id
+  ) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'The group owner cannot leave the group. Transfer ownership first.';
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'The group owner must remain an admin. Transfer ownership first.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_group_owner
+BEFORE UPDATE OR DELETE ON public.group_members
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_group_owner();
+
+-- Group details are managed by admins; ownership only changes through
+-- transfer_group_ownership
+DROP POLICY "Creators can update their groups" ON public.study_groups;
+
+CREATE POLICY "Admins can update their groups"
+ON public.study_groups
+FOR UPDATE
+USING (public.get_group_role(id) = 'admin');
+
+REVOKE UPDATE ON public.study_groups FROM anon, authenticated;
+GRANT UPDATE (name, description, subject_id, max_members, privacy) ON public.study_groups TO authenticated;
+
+-- Hand the group to another member, who becomes an admin if they weren't.
+-- The previous owner stays on as an admin.
+CREATE OR REPLACE FUNCTION public.transfer_group_ownership(p_group_id UUID, p_new_owner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.study_groups g
+    WHERE g.id = p_group_id AND g.creator_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the group owner can transfer ownership';
+  END IF;
+
+  IF p_new_owner_id = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.group_members
+  SET role = 'admin'
+  WHERE group_id = p_group_id
+    AND user_id = p_new_owner_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The new owner must be a member of the group';
+  END IF;
+
+  UPDATE public.study_groups
+  SET creator_id = p_new_owner_id
+  WHERE id = p_group_id;
+END;
+$$;
@@ -0,0 +1,217 @@
+-- Member count kept on the group so capacity can be shown and checked
+-- without reading group_members, which only members can see
+ALTER TABLE public.study_groups ADD COLUMN member_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.sync_group_member_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.study_groups SET member_count = member_count + 1 WHERE id = NEW.group_id;
+  ELSE
+    UPDATE public.study_groups SET member_count = GREATEST(member_count - 1, 0) WHERE id = OLD.group_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_group_member_count
+AFTER INSERT OR DELETE ON public.group_members
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_group_member_count();
+
+UPDATE public.study_groups g
+SET member_count = (SELECT count(*) FROM public.group_members gm WHERE gm.group_id = g.id);
+
+-- Private groups can be found and requested; invite-only groups stay hidden
+-- from everyone but their members
+DROP POLICY "Public groups are viewable by everyone" ON public.study_groups;
+
+CREATE POLICY "Listed groups are viewable by everyone"
+ON public.study_groups
+FOR SELECT
+USING (
+  privacy IN ('public', 'private')
+  OR creator_id = auth.uid()
+  OR public.get_group_role(id) IS NOT NULL
+);
+
+-- Members now join through join_group; the only direct insert left is the
+-- creator adding themselves as admin when setting up the group
+DROP POLICY "Users can join groups" ON public.group_members;
+
+CREATE POLICY "Creators can add themselves to their groups"
+ON public.group_members
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND role = 'admin'
+  AND EXISTS (
+    SELECT 1 FROM public.study_groups g
+    WHERE g.id = group_id AND g.creator_id = auth.uid()
+  )
+);
+
+-- Requests to join private groups, approved by admins and moderators
+CREATE TABLE public.group_join_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.study_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message TEXT CHECK (char_length(message) <= 500),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined')),
+  responded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_group_join_requests_pending
+ON public.group_join_requests(group_id, user_id)
+WHERE status = 'pending';
+
+ALTER TABLE public.group_join_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and group managers can view join requests"
+ON public.group_join_requests
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR public.get_group_role(group_id) IN ('admin', 'moderator')
+);
+
+CREATE POLICY "Users can cancel their pending join requests"
+ON public.group_join_requests
+FOR DELETE
+USING (auth.uid() = user_id AND status = 'pending');
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check CHECK (
+  type IN ('question_answered', 'answer_accepted', 'group_invitation', 'resource_shared', 'points_earned', 'comment_added', 'mention', 'join_request')
+);
+
+-- Join a group, or ask to join a private one. The group row is locked so
+-- concurrent joins can't go over max_members. Returns 'joined', 'requested'
+-- or 'already_member'.
+CREATE OR REPLACE FUNCTION public.join_group(p_group_id UUID, p_message TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  target RECORD;
+  requester_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a group';
+  END IF;
+
+  SELECT g.id, g.name, g.privacy, g.max_members, g.member_count INTO target
+  FROM public.study_groups g
+  WHERE g.id = p_group_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Study group not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.group_members gm
+    WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid()
+  ) THEN
+    RETURN 'already_member';
+  END IF;
+
+  IF target.privacy = 'invite_only' THEN
+    RAISE EXCEPTION 'This group is invite-only';
+  END IF;
+
+  IF target.member_count >= coalesce(target.max_members, 50) THEN
+    RAISE EXCEPTION 'This group is full';
+  END IF;
+
+  IF target.privacy = 'private' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.group_join_requests r
+      WHERE r.group_id = p_group_id AND r.user_id = auth.uid() AND r.status = 'pending'
+    ) THEN
+      RETURN 'requested';
+    END IF;
+
+    INSERT INTO public.group_join_requests (group_id, user_id, message)
+    VALUES (p_group_id, auth.uid(), nullif(btrim(p_message), ''));
+
+    SELECT p.full_name INTO requester_name FROM public.profiles p WHERE p.user_id = auth.uid();
+
+    PERFORM public.create_notification(
+      gm.user_id,
+      'join_request',
+      coalesce(requester_name, 'Someone') || ' asked to join ' || target.name,
+      coalesce(nullif(btrim(p_message), ''), 'Review the request in the group settings.'),
+      p_group_id,
+      '%s people asked to join ' || replace(target.name, '%', '%%')
+    )
+    FROM public.group_members gm
+    WHERE gm.group_id = p_group_id
+      AND gm.role IN ('admin', 'moderator');
+
+    RETURN 'requested';
+  END IF;
+
+  INSERT INTO public.group_members (group_id, user_id, role)
+  VALUES (p_group_id, auth.uid(), 'member');
+
+  RETURN 'joined';
+END;
+$$;
+
+-- Approve or decline a pending request. Approval is subject to the same
+-- capacity check as joining.
+CREATE OR REPLACE FUNCTION public.respond_to_join_request(p_request_id UUID, p_approve BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  request RECORD;
+  target RECORD;
+BEGIN
+  SELECT r.id, r.group_id, r.user_id, r.status INTO request
+  FROM public.group_join_requests r
+  WHERE r.id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR coalesce(public.get_group_role(request.group_id)::text, '') NOT IN ('admin', 'moderator') THEN
+    RAISE EXCEPTION 'Only group admins and moderators can respond to join requests';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been answered';
+  END IF;
+
+  IF p_approve THEN
+    SELECT g.max_members, g.member_count INTO target
+    FROM public.study_groups g
+    WHERE g.id = request.group_id
+    FOR UPDATE;
+
+    IF target.member_count >= coalesce(target.max_members, 50) THEN
+      RAISE EXCEPTION 'This group is full';
+    END IF;
+
+    INSERT INTO public.group_members (group_id, user_id, role)
+    VALUES (request.group_id, request.user_id, 'member')
+    ON CONFLICT (group_id, user_id) DO NOTHING;
+  END IF;
+
+  UPDATE public.group_join_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'declined' END,
+      responded_by = auth.uid(),
+      responded_at = now()
+  WHERE id = p_request_id;
+END;
+$$;
@@ -0,0 +1,339 @@
+-- Invites let admins and moderators bring people into a group regardless of
+-- its privacy. Link invites carry a token anyone can redeem; direct invites
+-- name one user, who can then join from the group page.
+CREATE TABLE public.group_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.study_groups(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invited_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_uses INTEGER CHECK (max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- A direct invite is for one person, once
+  CONSTRAINT group_invites_direct_single_use CHECK (invited_user_id IS NULL OR max_uses = 1)
+);
+
+CREATE INDEX idx_group_invites_group ON public.group_invites(group_id, created_at DESC);
+CREATE INDEX idx_group_invites_invited_user ON public.group_invites(invited_user_id) WHERE invited_user_id IS NOT NULL;
+
+ALTER TABLE public.group_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Group managers and invitees can view invites"
+ON public.group_invites
+FOR SELECT
+USING (
+  auth.uid() = invited_user_id
+  OR public.get_group_role(group_id) IN ('admin', 'moderator')
+);
+
+-- Revoking is the only client-side change; invites are created and redeemed
+-- through the functions below
+CREATE POLICY "Group managers can revoke invites"
+ON public.group_invites
+FOR UPDATE
+USING (public.get_group_role(group_id) IN ('admin', 'moderator'));
+
+REVOKE UPDATE ON public.group_invites FROM anon, authenticated;
+GRANT UPDATE (revoked_at) ON public.group_invites TO authenticated;
+
+-- Usable invite for the current user: a direct invite to them, or the link
+-- invite with the given token
+CREATE OR REPLACE FUNCTION public.is_invite_usable(invite public.group_invites)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT invite.revoked_at IS NULL
+    AND (invite.expires_at IS NULL OR invite.expires_at > now())
+    AND (invite.max_uses IS NULL OR invite.use_count < invite.max_uses)
+    AND (invite.invited_user_id IS NULL OR invite.invited_user_id = auth.uid());
+$$;
+
+-- Whether the current user holds a usable direct invite to the group
+CREATE OR REPLACE FUNCTION public.has_group_invite(p_group_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_invites i
+    WHERE i.group_id = p_group_id
+      AND i.invited_user_id = auth.uid()
+      AND public.is_invite_usable(i)
+  );
+$$;
+
+-- Invited users can see the group they were invited to
+DROP POLICY "Listed groups are viewable by everyone" ON public.study_groups;
+
+CREATE POLICY "Listed groups are viewable by everyone"
+ON public.study_groups
+FOR SELECT
+USING (
+  privacy IN ('public', 'private')
+  OR creator_id = auth.uid()
+  OR public.get_group_role(id) IS NOT NULL
+  OR public.has_group_invite(id)
+);
+
+-- Create an invite link (p_invited_user_id NULL) or a direct invite, which
+-- also notifies the invited user
+CREATE OR REPLACE FUNCTION public.create_group_invite(
+  p_group_id UUID,
+  p_invited_user_id UUID DEFAULT NULL,
+  p_max_uses INTEGER DEFAULT NULL,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.group_invites
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  invite public.group_invites;
+  group_name TEXT;
+  inviter_name TEXT;
+BEGIN
+  IF coalesce(public.get_group_role(p_group_id)::text, '') NOT IN ('admin', 'moderator') THEN
+    RAISE EXCEPTION 'Only group admins and moderators can invite people';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Invite expiry must be in the future';
+  END IF;
+
+  IF p_invited_user_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.group_members gm
+      WHERE gm.group_id = p_group_id AND gm.user_id = p_invited_user_id
+    ) THEN
+      RAISE EXCEPTION 'That person is already a member of this group';
+    END IF;
+
+    -- Re-inviting replaces any outstanding direct invite
+    UPDATE public.group_invites
+    SET revoked_at = now()
+    WHERE group_id = p_group_id
+      AND invited_user_id = p_invited_user_id
+      AND revoked_at IS NULL;
+  END IF;
+
+  INSERT INTO public.group_invites (group_id, created_by, invited_user_id, max_uses, expires_at)
+  VALUES (
+    p_group_id,
+    auth.uid(),
+    p_invited_user_id,
+    CASE WHEN p_invited_user_id IS NULL THEN p_max_uses ELSE 1 END,
+    p_expires_at
+  )
+  RETURNING * INTO invite;
+
+  IF p_invited_user_id IS NOT NULL THEN
+    SELECT g.name INTO group_name FROM public.study_groups g WHERE g.id = p_group_id;
+    SELECT p.full_name INTO inviter_name FROM public.profiles p WHERE p.user_id = auth.uid();
+
+    PERFORM public.create_notification(
+      p_invited_user_id,
+      'group_invitation',
+      'You were invited to ' || coalesce(group_name, 'a study group'),
+      coalesce(inviter_name, 'A group admin') || ' invited you to join the group.',
+      p_group_id
+    );
+  END IF;
+
+  RETURN invite;
+END;
+$$;
+
+-- What an invite link leads to, for the join page. Works for invite-only
+-- groups the caller can't otherwise see. status is one of valid, expired,
+-- revoked, used_up, not_for_you, already_member or full.
+CREATE OR REPLACE FUNCTION public.preview_group_invite(p_token TEXT)
+RETURNS TABLE (
+  group_id UUID,
+  group_name TEXT,
+  description TEXT,
+  member_count INTEGER,
+  max_members INTEGER,
+  status TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    g.id,
+    g.name,
+    g.description,
+    g.member_count,
+    g.max_members,
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.group_members gm
+        WHERE gm.group_id = g.id AND gm.user_id = auth.uid()
+      ) THEN 'already_member'
+      WHEN i.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN i.expires_at IS NOT NULL AND i.expires_at <= now() THEN 'expired'
+      WHEN i.max_uses IS NOT NULL AND i.use_count >= i.max_uses THEN 'used_up'
+      WHEN i.invited_user_id IS NOT NULL AND i.invited_user_id IS DISTINCT FROM auth.uid() THEN 'not_for_you'
+      WHEN g.member_count >= coalesce(g.max_members, 50) THEN 'full'
+      ELSE 'valid'
+    END
+  FROM public.group_invites i
+  JOIN public.study_groups g ON g.id = i.group_id
+  WHERE i.token = p_token;
+END;
+$$;
+
+-- Add the current user to the group using an invite, returning the group id
+CREATE OR REPLACE FUNCTION public.redeem_group_invite(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  invite public.group_invites;
+  target RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a group';
+  END IF;
+
+  SELECT * INTO invite
+  FROM public.group_invites i
+  WHERE i.token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite link is not valid';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.group_members gm
+    WHERE gm.group_id = invite.group_id AND gm.user_id = auth.uid()
+  ) THEN
+    RETURN invite.group_id;
+  END IF;
+
+  IF NOT public.is_invite_usable(invite) THEN
+    RAISE EXCEPTION 'This invite has expired or is no longer valid';
+  END IF;
+
+  SELECT g.max_members, g.member_count INTO target
+  FROM public.study_groups g
+  WHERE g.id = invite.group_id
+  FOR UPDATE;
+
+  IF target.member_count >= coalesce(target.max_members, 50) THEN
+    RAISE EXCEPTION 'This group is full';
+  END IF;
+
+  INSERT INTO public.group_members (group_id, user_id, role)
+  VALUES (invite.group_id, auth.uid(), 'member');
+
+  UPDATE public.group_invites
+  SET use_count = use_count + 1
+  WHERE id = invite.id;
+
+  RETURN invite.group_id;
+END;
+$$;
+
+-- Joining from the group page uses a direct invite when there is one, so
+-- invitees don't need the link
+CREATE OR REPLACE FUNCTION public.join_group(p_group_id UUID, p_message TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  target RECORD;
+  direct_invite_token TEXT;
+  requester_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a group';
+  END IF;
+
+  SELECT i.token INTO direct_invite_token
+  FROM public.group_invites i
+  WHERE i.group_id = p_group_id
+    AND i.invited_user_id = auth.uid()
+    AND public.is_invite_usable(i)
+  ORDER BY i.created_at DESC
+  LIMIT 1;
+
+  IF direct_invite_token IS NOT NULL THEN
+    PERFORM public.redeem_group_invite(direct_invite_token);
+    RETURN 'joined';
+  END IF;
+
+  SELECT g.id, g.name, g.privacy, g.max_members, g.member_count INTO target
+  FROM public.study_groups g
+  WHERE g.id = p_group_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Study group not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.group_members gm
+    WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid()
+  ) THEN
+    RETURN 'already_member';
+  END IF;
+
+  IF target.privacy = 'invite_only' THEN
+    RAISE EXCEPTION 'This group is invite-only';
+  END IF;
+
+  IF target.member_count >= coalesce(target.max_members, 50) THEN
+    RAISE EXCEPTION 'This group is full';
+  END IF;
+
+  IF target.privacy = 'private' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.group_join_requests r
+      WHERE r.group_id = p_group_id AND r.user_id = auth.uid() AND r.status = 'pending'
+    ) THEN
+      RETURN 'requested';
+    END IF;
+
+    INSERT INTO public.group_join_requests (group_id, user_id, message)
+    VALUES (p_group_id, auth.uid(), nullif(btrim(p_message), ''));
+
+    SELECT p.full_name INTO requester_name FROM public.profiles p WHERE p.user_id = auth.uid();
+
+    PERFORM public.create_notification(
+      gm.user_id,
+      'join_request',
+      coalesce(requester_name, 'Someone') || ' asked to join ' || target.name,
+      coalesce(nullif(btrim(p_message), ''), 'Review the request in the group settings.'),
+      p_group_id,
+      '%s people asked to join ' || replace(target.name, '%', '%%')
+    )
+    FROM public.group_members gm
+    WHERE gm.group_id = p_group_id
+      AND gm.role IN ('admin', 'moderator');
+
+    RETURN 'requested';
+  END IF;
+
+  INSERT INTO public.group_members (group_id, user_id, role)
+  VALUES (p_group_id, auth.uid(), 'member');
+
+  RETURN 'joined';
+END;
+$$;
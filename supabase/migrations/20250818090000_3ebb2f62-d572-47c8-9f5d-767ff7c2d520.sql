@@ -0,0 +1,96 @@
+-- Whether the current user belongs to a group. SECURITY DEFINER so policies
+-- on group_members can check membership without querying the table they
+-- protect, which made the old SELECT policy recurse.
+CREATE OR REPLACE FUNCTION public.is_group_member(p_group_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members gm
+    WHERE gm.group_id = p_group_id
+      AND gm.user_id = auth.uid()
+  );
+$$;
+
+-- study_groups: listed groups are visible to everyone; invite-only groups
+-- only to their members and the people invited to them
+DROP POLICY "Listed groups are viewable by everyone" ON public.study_groups;
+
+CREATE POLICY "Listed groups are viewable by everyone"
+ON public.study_groups
+FOR SELECT
+USING (
+  privacy IN ('public', 'private')
+  OR creator_id = auth.uid()
+  OR public.is_group_member(id)
+  OR public.has_group_invite(id)
+);
+
+DROP POLICY "Users can create study groups" ON public.study_groups;
+
+CREATE POLICY "Users can create study groups"
+ON public.study_groups
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = creator_id);
+
+-- group_members: member lists of public groups are public, everything else
+-- is for members only
+DROP POLICY "Group members are viewable by group members" ON public.group_members;
+
+CREATE POLICY "Group members are viewable by group members"
+ON public.group_members
+FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR public.is_group_member(group_id)
+  OR EXISTS (
+    SELECT 1 FROM public.study_groups g
+    WHERE g.id = group_members.group_id AND g.privacy = 'public'
+  )
+);
+
+-- messages: readable and writable by members only, as before, but without
+-- querying group_members under the caller's RLS
+DROP POLICY "Group members can view messages" ON public.messages;
+
+CREATE POLICY "Group members can view messages"
+ON public.messages
+FOR SELECT
+USING (public.is_group_member(group_id));
+
+DROP POLICY "Group members can create messages" ON public.messages;
+
+CREATE POLICY "Group members can create messages"
+ON public.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_group_member(group_id)
+  AND (
+    file_url IS NULL
+    OR file_url LIKE messages.group_id::text || '/' || auth.uid()::text || '/%'
+  )
+);
+
+-- Foreign keys to profiles so group queries can embed the member's or
+-- sender's profile instead of fetching profiles in a second request
+ALTER TABLE public.study_groups
+ADD CONSTRAINT study_groups_creator_id_profiles_fkey
+FOREIGN KEY (creator_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+ALTER TABLE public.group_members
+ADD CONSTRAINT group_members_user_id_profiles_fkey
+FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_user_id_profiles_fkey
+FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_group_id_fkey
+FOREIGN KEY (group_id) REFERENCES public.study_groups(id) ON DELETE CASCADE;
@@ -0,0 +1,176 @@
+-- Chat messages can quote the message they reply to, be edited by their
+-- author and be deleted by their author or a group moderator. Deleting only
+-- blanks a message so replies quoting it still make sense.
+ALTER TABLE public.messages
+ADD COLUMN reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_messages_reply_to ON public.messages(reply_to_id) WHERE reply_to_id IS NOT NULL;
+
+CREATE POLICY "Authors and group moderators can update messages"
+ON public.messages
+FOR UPDATE
+USING (
+  auth.uid() = user_id
+  OR public.get_group_role(group_id) IN ('admin', 'moderator')
+);
+
+-- Only the text can be edited; deleting sets deleted_at
+REVOKE UPDATE ON public.messages FROM anon, authenticated;
+GRANT UPDATE (content, deleted_at) ON public.messages TO authenticated;
+
+-- Keep replies within their group, limit edits to the author and blank
+-- deleted messages. The attachment of a deleted message is queued for
+-- removal by queue_message_attachment_deletion once file_url is cleared.
+CREATE OR REPLACE FUNCTION public.validate_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Deleted messages cannot be changed';
+    END IF;
+
+    IF NEW.deleted_at IS NOT NULL THEN
+      NEW.deleted_at := now();
+      NEW.content := '';
+      NEW.message_type := 'text';
+      NEW.file_url := NULL;
+      NEW.file_name := NULL;
+      NEW.file_type := NULL;
+      NEW.file_size := NULL;
+      RETURN NEW;
+    END IF;
+
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+      IF auth.uid() IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'Only the author can edit a message';
+      END IF;
+
+      IF btrim(NEW.content) = '' THEN
+        RAISE EXCEPTION 'Messages cannot be empty';
+      END IF;
+
+      NEW.edited_at := now();
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reply_to_id IS NOT NULL THEN
+    SELECT m.group_id, m.deleted_at INTO parent
+    FROM public.messages m
+    WHERE m.id = NEW.reply_to_id;
+
+    IF NOT FOUND OR parent.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'The message you are replying to no longer exists';
+    END IF;
+
+    IF parent.group_id <> NEW.group_id THEN
+      RAISE EXCEPTION 'Replies must be in the same group as the message they quote';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_message
+BEFORE INSERT OR UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_message();
+
+-- UPDATE OF file_url only fires when the statement sets file_url, not when
+-- validate_message clears it, so compare the old and new rows instead
+DROP TRIGGER queue_message_attachment_deletion ON public.messages;
+
+CREATE TRIGGER queue_message_attachment_deletion
+AFTER DELETE OR UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_storage_deletion('chat-attachments');
+
+-- Emoji reactions, one row per person per emoji. group_id is copied from the
+-- message so realtime subscriptions can filter by group.
+CREATE TABLE public.message_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES public.study_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(message_id, user_id, emoji)
+);
+
+CREATE INDEX idx_message_reactions_group ON public.message_reactions(group_id);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Group members can view reactions"
+ON public.message_reactions
+FOR SELECT
+USING (public.is_group_member(group_id));
+
+CREATE POLICY "Group members can react to messages"
+ON public.message_reactions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+      AND m.deleted_at IS NULL
+      AND public.is_group_member(m.group_id)
+  )
+);
+
+CREATE POLICY "Users can remove their own reactions"
+ON public.message_reactions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.set_reaction_group()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  SELECT m.group_id INTO NEW.group_id
+  FROM public.messages m
+  WHERE m.id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_reaction_group
+BEFORE INSERT ON public.message_reactions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_reaction_group();
+
+-- Reactions of a deleted message go with it
+CREATE OR REPLACE FUNCTION public.clear_deleted_message_reactions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM public.message_reactions WHERE message_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER clear_deleted_message_reactions
+AFTER UPDATE OF deleted_at ON public.messages
+FOR EACH ROW
+WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+EXECUTE FUNCTION public.clear_deleted_message_reactions();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
+ALTER TABLE public.message_reactions REPLICA IDENTITY FULL;
@@ -0,0 +1,86 @@
+-- How far each member has read in each of their groups. Messages after
+-- last_read_at (or after joining, for members who haven't opened the chat)
+-- count as unread. Written only through mark_group_read.
+CREATE TABLE public.group_read_state (
+  group_id UUID NOT NULL REFERENCES public.study_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+ALTER TABLE public.group_read_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own read state"
+ON public.group_read_state
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_messages_group_created ON public.messages(group_id, created_at);
+
+-- Mark everything up to and including the given message as read. Read
+-- state only moves forward, so out-of-order calls while scrolling are safe.
+CREATE OR REPLACE FUNCTION public.mark_group_read(p_group_id UUID, p_message_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  read_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT public.is_group_member(p_group_id) THEN
+    RAISE EXCEPTION 'Only group members can mark messages as read';
+  END IF;
+
+  SELECT m.created_at INTO read_at
+  FROM public.messages m
+  WHERE m.id = p_message_id AND m.group_id = p_group_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found in this group';
+  END IF;
+
+  INSERT INTO public.group_read_state (group_id, user_id, last_read_message_id, last_read_at)
+  VALUES (p_group_id, auth.uid(), p_message_id, read_at)
+  ON CONFLICT (group_id, user_id) DO UPDATE
+  SET last_read_message_id = EXCLUDED.last_read_message_id,
+      last_read_at = EXCLUDED.last_read_at,
+      updated_at = now()
+  WHERE public.group_read_state.last_read_at < EXCLUDED.last_read_at;
+END;
+$$;
+
+-- Unread message counts for every group the current user belongs to. Their
+-- own and deleted messages don't count.
+CREATE OR REPLACE FUNCTION public.get_group_unread_counts()
+RETURNS TABLE (
+  group_id UUID,
+  group_name TEXT,
+  unread_count BIGINT,
+  last_read_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    gm.group_id,
+    g.name,
+    (
+      SELECT count(*)
+      FROM public.messages m
+      WHERE m.group_id = gm.group_id
+        AND m.created_at > coalesce(rs.last_read_at, gm.joined_at)
+        AND m.user_id <> gm.user_id
+        AND m.deleted_at IS NULL
+    ),
+    coalesce(rs.last_read_at, gm.joined_at)
+  FROM public.group_members gm
+  JOIN public.study_groups g ON g.id = gm.group_id
+  LEFT JOIN public.group_read_state rs
+    ON rs.group_id = gm.group_id AND rs.user_id = gm.user_id
+  WHERE gm.user_id = auth.uid();
+$$;
@@ -0,0 +1,231 @@
+-- Scheduled study sessions for groups, planned by admins and moderators
+CREATE TABLE public.group_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.study_groups(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 200),
+  agenda TEXT CHECK (char_length(agenda) <= 5000),
+  location TEXT CHECK (char_length(location) <= 500),
+  meeting_url TEXT CHECK (meeting_url ~* '^https?://[^[:cntrl:][:space:]]+$'),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  reminder_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT group_sessions_ends_after_start CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_group_sessions_group_starts ON public.group_sessions(group_id, starts_at);
+CREATE INDEX idx_group_sessions_reminders ON public.group_sessions(starts_at) WHERE reminder_sent_at IS NULL;
+
+ALTER TABLE public.group_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Group members can view sessions"
+ON public.group_sessions
+FOR SELECT
+USING (public.is_group_member(group_id));
+
+CREATE POLICY "Group managers can schedule sessions"
+ON public.group_sessions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.get_group_role(group_id) IN ('admin', 'moderator')
+);
+
+CREATE POLICY "Group managers can update sessions"
+ON public.group_sessions
+FOR UPDATE
+USING (public.get_group_role(group_id) IN ('admin', 'moderator'));
+
+CREATE POLICY "Group managers can delete sessions"
+ON public.group_sessions
+FOR DELETE
+USING (public.get_group_role(group_id) IN ('admin', 'moderator'));
+
+-- reminder_sent_at belongs to the reminder job
+REVOKE UPDATE ON public.group_sessions FROM anon, authenticated;
+GRANT UPDATE (title, agenda, location, meeting_url, starts_at, ends_at) ON public.group_sessions TO authenticated;
+
+CREATE TRIGGER update_group_sessions_updated_at
+BEFORE UPDATE ON public.group_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A rescheduled session gets a fresh reminder
+CREATE OR REPLACE FUNCTION public.reset_session_reminder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.starts_at IS DISTINCT FROM OLD.starts_at THEN
+    NEW.reminder_sent_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_session_reminder
+BEFORE UPDATE OF starts_at ON public.group_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_session_reminder();
+
+-- Each member's answer to a session. Written only through set_session_rsvp.
+CREATE TABLE public.session_rsvps (
+  session_id UUID NOT NULL REFERENCES public.group_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('going', 'maybe', 'not_going')),
+  responded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, user_id)
+);
+
+ALTER TABLE public.session_rsvps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Group members can view RSVPs"
+ON public.session_rsvps
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.group_sessions s
+    WHERE s.id = session_id AND public.is_group_member(s.group_id)
+  )
+);
+
+CREATE POLICY "Members can withdraw their RSVP"
+ON public.session_rsvps
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Answer a session for the current user, or change an earlier answer
+CREATE OR REPLACE FUNCTION public.set_session_rsvp(p_session_id UUID, p_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  session_group_id UUID;
+BEGIN
+  SELECT s.group_id INTO session_group_id
+  FROM public.group_sessions s
+  WHERE s.id = p_session_id;
+
+  IF NOT FOUND OR NOT public.is_group_member(session_group_id) THEN
+    RAISE EXCEPTION 'Only group members can RSVP to a session';
+  END IF;
+
+  INSERT INTO public.session_rsvps (session_id, user_id, status)
+  VALUES (p_session_id, auth.uid(), p_status)
+  ON CONFLICT (session_id, user_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      responded_at = now();
+END;
+$$;
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check CHECK (
+  type IN ('question_answered', 'answer_accepted', 'group_invitation', 'resource_shared', 'points_earned', 'comment_added', 'mention', 'join_request', 'session_reminder')
+);
+
+-- Remind members about sessions starting within the hour, unless they said
+-- they aren't going. Reminders are keyed by session so two sessions in one
+-- group aren't coalesced, and link to the dashboard, which shows the start
+-- time in the reader's timezone. Returns the number of sessions reminded
+-- about.
+CREATE OR REPLACE FUNCTION public.send_session_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  upcoming RECORD;
+  reminded INTEGER := 0;
+BEGIN
+  FOR upcoming IN
+    SELECT s.id, s.group_id, s.title, s.starts_at, s.location, s.meeting_url
+    FROM public.group_sessions s
+    WHERE s.reminder_sent_at IS NULL
+      AND s.starts_at > now()
+      AND s.starts_at <= now() + INTERVAL '1 hour'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.create_notification(
+      gm.user_id,
+      'session_reminder',
+      upcoming.title || ' starts within the hour',
+      coalesce(upcoming.location, upcoming.meeting_url, 'Open the group for details.'),
+      upcoming.id
+    )
+    FROM public.group_members gm
+    WHERE gm.group_id = upcoming.group_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.session_rsvps r
+        WHERE r.session_id = upcoming.id
+          AND r.user_id = gm.user_id
+          AND r.status = 'not_going'
+      );
+
+    UPDATE public.group_sessions SET reminder_sent_at = now() WHERE id = upcoming.id;
+    reminded := reminded + 1;
+  END LOOP;
+
+  RETURN reminded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_session_reminders() FROM PUBLIC, anon, authenticated;
+
+-- Look for sessions that need reminding every five minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'session-reminders',
+  '*/5 * * * *',
+  $$ SELECT public.send_session_reminders(); $$
+);
+
+-- Secret token identifying a user's calendar feed. Calendar apps can't sign
+-- in, so the feed URL carries this instead; rotating it revokes old links.
+CREATE TABLE public.calendar_feed_tokens (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own feed token"
+ON public.calendar_feed_tokens
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- The current user's feed token, created on first use or replaced when
+-- p_rotate is set
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_token(p_rotate BOOLEAN DEFAULT false)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  feed_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to subscribe to a calendar';
+  END IF;
+
+  IF p_rotate THEN
+    DELETE FROM public.calendar_feed_tokens WHERE user_id = auth.uid();
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT t.token INTO feed_token FROM public.calendar_feed_tokens t WHERE t.user_id = auth.uid();
+  RETURN feed_token;
+END;
+$$;
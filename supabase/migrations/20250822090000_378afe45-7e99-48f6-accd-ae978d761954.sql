@@ -0,0 +1,205 @@
+-- Shared markdown notes for study groups. Every save is kept as a revision,
+-- and saves are checked against the revision the editor started from so two
+-- members can't silently overwrite each other.
+CREATE TABLE public.group_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.study_groups(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 200),
+  content TEXT NOT NULL DEFAULT '' CHECK (char_length(content) <= 100000),
+  current_revision INTEGER NOT NULL DEFAULT 1,
+  created_by UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  updated_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_group_notes_group ON public.group_notes(group_id, updated_at DESC);
+
+CREATE TABLE public.group_note_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES public.group_notes(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  author_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  -- Set when this revision restored an earlier one
+  restored_from INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (note_id, revision)
+);
+
+ALTER TABLE public.group_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_note_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Group members can view notes"
+ON public.group_notes
+FOR SELECT
+USING (public.is_group_member(group_id));
+
+CREATE POLICY "Group members can create notes"
+ON public.group_notes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.is_group_member(group_id)
+);
+
+CREATE POLICY "Note authors and group managers can delete notes"
+ON public.group_notes
+FOR DELETE
+USING (
+  auth.uid() = created_by
+  OR public.get_group_role(group_id) IN ('admin', 'moderator')
+);
+
+-- Edits go through save_group_note so every change gets a revision
+REVOKE UPDATE ON public.group_notes FROM anon, authenticated;
+
+CREATE POLICY "Group members can view note revisions"
+ON public.group_note_revisions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.group_notes n
+    WHERE n.id = note_id AND public.is_group_member(n.group_id)
+  )
+);
+
+-- A new note starts at revision 1 whatever the client sent
+CREATE OR REPLACE FUNCTION public.record_initial_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.group_note_revisions (note_id, revision, title, content, author_id)
+  VALUES (NEW.id, 1, NEW.title, NEW.content, NEW.created_by);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_new_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.current_revision := 1;
+  NEW.updated_by := NEW.created_by;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_new_note_revision
+BEFORE INSERT ON public.group_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_new_note_revision();
+
+CREATE TRIGGER record_initial_note_revision
+AFTER INSERT ON public.group_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.record_initial_note_revision();
+
+-- Writes a new revision if p_base_revision is still the latest. Returns
+-- 'saved', 'unchanged' when nothing differs, or 'conflict' when someone
+-- else saved first, along with the note's revision afterwards.
+CREATE OR REPLACE FUNCTION public.apply_group_note_revision(
+  p_note_id UUID,
+  p_base_revision INTEGER,
+  p_title TEXT,
+  p_content TEXT,
+  p_restored_from INTEGER
+)
+RETURNS TABLE (status TEXT, revision INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  note public.group_notes;
+  next_revision INTEGER;
+BEGIN
+  SELECT * INTO note
+  FROM public.group_notes n
+  WHERE n.id = p_note_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_group_member(note.group_id) THEN
+    RAISE EXCEPTION 'Note not found';
+  END IF;
+
+  IF note.current_revision <> p_base_revision THEN
+    RETURN QUERY SELECT 'conflict'::TEXT, note.current_revision;
+    RETURN;
+  END IF;
+
+  IF note.title = btrim(p_title) AND note.content = p_content THEN
+    RETURN QUERY SELECT 'unchanged'::TEXT, note.current_revision;
+    RETURN;
+  END IF;
+
+  next_revision := note.current_revision + 1;
+
+  UPDATE public.group_notes
+  SET title = btrim(p_title),
+      content = p_content,
+      current_revision = next_revision,
+      updated_by = auth.uid(),
+      updated_at = now()
+  WHERE id = p_note_id;
+
+  INSERT INTO public.group_note_revisions (note_id, revision, title, content, author_id, restored_from)
+  VALUES (p_note_id, next_revision, btrim(p_title), p_content, auth.uid(), p_restored_from);
+
+  RETURN QUERY SELECT 'saved'::TEXT, next_revision;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_group_note_revision(UUID, INTEGER, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.save_group_note(
+  p_note_id UUID,
+  p_base_revision INTEGER,
+  p_title TEXT,
+  p_content TEXT
+)
+RETURNS TABLE (status TEXT, revision INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT * FROM public.apply_group_note_revision(p_note_id, p_base_revision, p_title, p_content, NULL);
+END;
+$$;
+
+-- Restoring never rewrites history; it saves the old revision's text as a
+-- new revision on top of p_base_revision
+CREATE OR REPLACE FUNCTION public.restore_group_note_revision(
+  p_note_id UUID,
+  p_revision INTEGER,
+  p_base_revision INTEGER
+)
+RETURNS TABLE (status TEXT, revision INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  target public.group_note_revisions;
+BEGIN
+  SELECT * INTO target
+  FROM public.group_note_revisions r
+  WHERE r.note_id = p_note_id AND r.revision = p_revision;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.apply_group_note_revision(p_note_id, p_base_revision, target.title, target.content, p_revision);
+END;
+$$;
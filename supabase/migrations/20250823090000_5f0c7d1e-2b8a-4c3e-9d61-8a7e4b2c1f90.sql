@@ -0,0 +1,57 @@
+-- The group id in a group chat channel topic ("group:<uuid>"), or NULL for
+-- any other topic. Checked with a CASE so a malformed topic never reaches
+-- the cast.
+CREATE OR REPLACE FUNCTION public.group_channel_id(p_topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN p_topic ~* '^group:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN substring(p_topic FROM 7)::UUID
+  END;
+$$;
+
+-- Group chat channels are private: only members of the group may listen to
+-- its broadcasts and presence, or track their own presence on it
+CREATE POLICY "Group members can receive on their group channel"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND public.is_group_member(public.group_channel_id(realtime.topic()))
+);
+
+CREATE POLICY "Group members can track presence on their group channel"
+ON realtime.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension = 'presence'
+  AND public.is_group_member(public.group_channel_id(realtime.topic()))
+);
+
+-- Tell the group the current user is typing. Clients can't broadcast on the
+-- channel themselves, so the user id in a typing event always comes from
+-- the caller's session.
+CREATE OR REPLACE FUNCTION public.send_typing(p_group_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.is_group_member(p_group_id) THEN
+    RAISE EXCEPTION 'Only group members can send typing indicators';
+  END IF;
+
+  PERFORM realtime.send(
+    jsonb_build_object('user_id', auth.uid()),
+    'typing',
+    'group:' || p_group_id::text,
+    true
+  );
+END;
+$$;
@@ -0,0 +1,104 @@
+-- Realtime authorization for private group chat channels ("group:<uuid>").
+-- realtime.topic() reads the realtime.topic setting, which the realtime
+-- server sets while checking a channel join.
+BEGIN;
+SELECT plan(12);
+
+CREATE FUNCTION pg_temp.act_as(p_user_id UUID, p_topic TEXT) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('role', 'none', true);
+  PERFORM set_config('realtime.topic', p_topic, true);
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+  PERFORM set_config('role', 'authenticated', true);
+END;
+$$;
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'member@example.com', '{"full_name": "Member"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'outsider@example.com', '{"full_name": "Outsider"}');
+
+INSERT INTO public.study_groups (id, name, creator_id) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', 'Group', '00000000-0000-0000-0000-0000000000a1');
+
+INSERT INTO public.group_members (group_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'admin');
+
+INSERT INTO realtime.messages (topic, extension, event, private) VALUES
+  ('group:00000000-0000-0000-0000-0000000000b1', 'broadcast', 'typing', true),
+  ('group:00000000-0000-0000-0000-0000000000b1', 'presence', 'presence', true);
+
+SELECT is(
+  public.group_channel_id('group:00000000-0000-0000-0000-0000000000b1'),
+  '00000000-0000-0000-0000-0000000000b1'::UUID,
+  'group_channel_id reads the group id from the topic'
+);
+SELECT is(
+  public.group_channel_id('group:not-a-uuid'),
+  NULL,
+  'group_channel_id ignores malformed topics'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a1', 'group:00000000-0000-0000-0000-0000000000b1');
+SELECT is(
+  (SELECT count(*)::INT FROM realtime.messages),
+  2,
+  'members can receive broadcasts and presence on their group channel'
+);
+SELECT throws_ok(
+  $$INSERT INTO realtime.messages (topic, extension, event, private)
+    VALUES ('group:00000000-0000-0000-0000-0000000000b1', 'broadcast', 'typing', true)$$,
+  '42501', NULL,
+  'members cannot broadcast on the channel directly'
+);
+SELECT lives_ok(
+  $$INSERT INTO realtime.messages (topic, extension, event, private)
+    VALUES ('group:00000000-0000-0000-0000-0000000000b1', 'presence', 'presence', true)$$,
+  'members can track presence on their group channel'
+);
+
+SELECT lives_ok(
+  $$SELECT public.send_typing('00000000-0000-0000-0000-0000000000b1')$$,
+  'members can send typing indicators'
+);
+SELECT is(
+  (SELECT payload ->> 'user_id' FROM realtime.messages WHERE payload IS NOT NULL),
+  '00000000-0000-0000-0000-0000000000a1',
+  'typing indicators carry the sender''s id from their session'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a2', 'group:00000000-0000-0000-0000-0000000000b1');
+SELECT is_empty(
+  $$SELECT 1 FROM realtime.messages$$,
+  'non-members cannot receive on the group channel'
+);
+SELECT throws_ok(
+  $$INSERT INTO realtime.messages (topic, extension, event, private)
+    VALUES ('group:00000000-0000-0000-0000-0000000000b1', 'broadcast', 'typing', true)$$,
+  '42501', NULL,
+  'non-members cannot broadcast on the group channel'
+);
+SELECT throws_ok(
+  $$INSERT INTO realtime.messages (topic, extension, event, private)
+    VALUES ('group:00000000-0000-0000-0000-0000000000b1', 'presence', 'presence', true)$$,
+  '42501', NULL,
+  'non-members cannot track presence on the group channel'
+);
+
+SELECT throws_ok(
+  $$SELECT public.send_typing('00000000-0000-0000-0000-0000000000b1')$$,
+  'P0001', 'Only group members can send typing indicators',
+  'non-members cannot send typing indicators'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a1', 'group:not-a-uuid');
+SELECT throws_ok(
+  $$INSERT INTO realtime.messages (topic, extension, event, private)
+    VALUES ('group:not-a-uuid', 'presence', 'presence', true)$$,
+  '42501', NULL,
+  'malformed topics are rejected'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
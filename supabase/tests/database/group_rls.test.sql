@@ -0,0 +1,376 @@
+-- Row level security for study groups, their members and chat messages.
+-- Run with `supabase test db` against a local stack.
+BEGIN;
+SELECT plan(46);
+
+-- Switch to a signed-in user, or to an anonymous visitor with NULL, for the
+-- rest of the transaction or until the next call
+CREATE FUNCTION pg_temp.act_as(p_user_id UUID) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('role', 'none', true);
+  IF p_user_id IS NULL THEN
+    PERFORM set_config('request.jwt.claims', '{"role": "anon"}', true);
+    PERFORM set_config('role', 'anon', true);
+  ELSE
+    PERFORM set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+    PERFORM set_config('role', 'authenticated', true);
+  END IF;
+END;
+$$;
+
+-- Fixtures, created as the superuser so RLS doesn't apply:
+--   owner      admin of every group
+--   moderator  moderator of every group
+--   member     plain member of every group
+--   outsider   belongs to none; invited to the invite-only group
+--   stranger   belongs to none and has no invites
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com', '{"full_name": "Owner"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'moderator@example.com', '{"full_name": "Moderator"}'),
+  ('00000000-0000-0000-0000-0000000000a3', 'member@example.com', '{"full_name": "Member"}'),
+  ('00000000-0000-0000-0000-0000000000a4', 'outsider@example.com', '{"full_name": "Outsider"}'),
+  ('00000000-0000-0000-0000-0000000000a5', 'stranger@example.com', '{"full_name": "Stranger"}');
+
+INSERT INTO public.study_groups (id, name, creator_id, privacy) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', 'Public group', '00000000-0000-0000-0000-0000000000a1', 'public'),
+  ('00000000-0000-0000-0000-0000000000b2', 'Private group', '00000000-0000-0000-0000-0000000000a1', 'private'),
+  ('00000000-0000-0000-0000-0000000000b3', 'Invite-only group', '00000000-0000-0000-0000-0000000000a1', 'invite_only');
+
+INSERT INTO public.group_members (group_id, user_id, role)
+SELECT g.id, u.user_id, u.role::public.group_role
+FROM public.study_groups g
+CROSS JOIN (VALUES
+  ('00000000-0000-0000-0000-0000000000a1'::UUID, 'admin'),
+  ('00000000-0000-0000-0000-0000000000a2'::UUID, 'moderator'),
+  ('00000000-0000-0000-0000-0000000000a3'::UUID, 'member')
+) AS u (user_id, role)
+WHERE g.id IN (
+  '00000000-0000-0000-0000-0000000000b1',
+  '00000000-0000-0000-0000-0000000000b2',
+  '00000000-0000-0000-0000-0000000000b3'
+);
+
+INSERT INTO public.messages (id, group_id, user_id, content) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a3', 'Public hello'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a3', 'Private hello'),
+  ('00000000-0000-0000-0000-0000000000c3', '00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-0000000000a3', 'Invite-only hello'),
+  ('00000000-0000-0000-0000-0000000000c4', '00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a1', 'Owner note');
+
+INSERT INTO public.group_invites (group_id, created_by, invited_user_id, max_uses) VALUES
+  ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a4', 1);
+
+-- study_groups: reading
+SELECT pg_temp.act_as(NULL);
+SELECT is(
+  (SELECT array_agg(name ORDER BY name) FROM public.study_groups),
+  ARRAY['Private group', 'Public group'],
+  'anonymous visitors see public and private groups but not invite-only ones'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a5');
+SELECT is(
+  (SELECT array_agg(name ORDER BY name) FROM public.study_groups),
+  ARRAY['Private group', 'Public group'],
+  'non-members see public and private groups but not invite-only ones'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a4');
+SELECT is(
+  (SELECT count(*)::INT FROM public.study_groups WHERE privacy = 'invite_only'),
+  1,
+  'a user with a pending invite can see the invite-only group'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a3');
+SELECT is(
+  (SELECT count(*)::INT FROM public.study_groups),
+  3,
+  'members see every group they belong to'
+);
+
+-- study_groups: writing
+SELECT pg_temp.act_as(NULL);
+SELECT throws_ok(
+  $$INSERT INTO public.study_groups (name, creator_id) VALUES ('Anon group', '00000000-0000-0000-0000-0000000000a5')$$,
+  '42501', NULL,
+  'anonymous visitors cannot create groups'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a5');
+SELECT lives_ok(
+  $$INSERT INTO public.study_groups (name, creator_id) VALUES ('Stranger group', '00000000-0000-0000-0000-0000000000a5')$$,
+  'signed-in users can create groups they own'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.study_groups (name, creator_id) VALUES ('Forged group', '00000000-0000-0000-0000-0000000000a1')$$,
+  '42501', NULL,
+  'users cannot create groups on behalf of someone else'
+);
+
+UPDATE public.study_groups SET name = 'Hijacked' WHERE id = '00000000-0000-0000-0000-0000000000b1';
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a3');
+UPDATE public.study_groups SET name = 'Renamed by member' WHERE id = '00000000-0000-0000-0000-0000000000b1';
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a2');
+UPDATE public.study_groups SET name = 'Renamed by moderator' WHERE id = '00000000-0000-0000-0000-0000000000b1';
+SELECT is(
+  (SELECT name FROM public.study_groups WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  'Public group',
+  'non-members, members and moderators cannot edit group details'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a1');
+UPDATE public.study_groups SET name = 'Renamed by admin' WHERE id = '00000000-0000-0000-0000-0000000000b1';
+SELECT is(
+  (SELECT name FROM public.study_groups WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  'Renamed by admin',
+  'admins can edit group details'
+);
+SELECT throws_ok(
+  $$UPDATE public.study_groups SET member_count = 500 WHERE id = '00000000-0000-0000-0000-0000000000b1'$$,
+  '42501', NULL,
+  'even admins cannot overwrite the member count'
+);
+
+-- group_members: reading
+SELECT pg_temp.act_as(NULL);
+SELECT is(
+  (SELECT count(*)::INT FROM public.group_members WHERE group_id = '00000000-0000-0000-0000-0000000000b1'),
+  3,
+  'anonymous visitors can list members of public groups'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.group_members WHERE group_id <> '00000000-0000-0000-0000-0000000000b1'$$,
+  'anonymous visitors cannot list members of private or invite-only groups'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a5');
+SELECT is(
+  (SELECT count(*)::INT FROM public.group_members WHERE group_id = '00000000-0000-0000-0000-0000000000b1'),
+  3,
+  'non-members can list members of public groups'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.group_members WHERE group_id = '00000000-0000-0000-0000-0000000000b2'$$,
+  'non-members cannot list members of private groups'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.group_members WHERE group_id = '00000000-0000-0000-0000-0000000000b3'$$,
+  'non-members cannot list members of invite-only groups'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a3');
+SELECT is(
+  (SELECT count(*)::INT FROM public.group_members WHERE group_id = '00000000-0000-0000-0000-0000000000b2'),
+  3,
+  'members can list the members of their private group'
+);
+
+-- group_members: joining
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a5');
+SELECT throws_ok(
+  $$INSERT INTO public.group_members (group_id, user_id) VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a5')$$,
+  '42501', NULL,
+  'users cannot add themselves to a group directly'
+);
+SELECT is(
+  public.join_group('00000000-0000-0000-0000-0000000000b1'),
+  'joined',
+  'anyone can join a public group through join_group'
+);
+SELECT is(
+  public.join_group('00000000-0000-0000-0000-0000000000b2', 'Please let me in'),
+  'requested',
+  'joining a private group files a request instead'
+);
+SELECT throws_ok(
+  $$SELECT public.join_group('00000000-0000-0000-0000-0000000000b3')$$,
+  'P0001', 'This group is invite-only',
+  'invite-only groups cannot be joined without an invite'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a4');
+SELECT is(
+  public.join_group('00000000-0000-0000-0000-0000000000b3'),
+  'joined',
+  'an invited user can join the invite-only group'
+);
+
+-- group_members: roles and removal
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a2');
+UPDATE public.group_members SET role = 'admin'
+WHERE group_id = '00000000-0000-0000-0000-0000000000b2' AND user_id = '00000000-0000-0000-0000-0000000000a3';
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a3');
+UPDATE public.group_members SET role = 'admin'
+WHERE group_id = '00000000-0000-0000-0000-0000000000b2' AND user_id = '00000000-0000-0000-0000-0000000000a3';
+SELECT is(
+  (SELECT role::TEXT FROM public.group_members
+   WHERE group_id = '00000000-0000-0000-0000-0000000000b2' AND user_id = '00000000-0000-0000-0000-0000000000a3'),
+  'member',
+  'members and moderators cannot change roles'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a1');
+UPDATE public.group_members SET role = 'moderator'
+WHERE group_id = '00000000-0000-0000-0000-0000000000b2' AND user_id = '00000000-0000-0000-0000-0000000000a3';
+SELECT is(
+  (SELECT role::TEXT FROM public.group_members
+   WHERE group_id = '00000000-0000-0000-0000-0000000000b2' AND user_id = '00000000-0000-0000-0000-0000000000a3'),
+  'moderator',
+  'admins can change roles'
+);
+UPDATE public.group_members SET role = 'member'
+WHERE group_id = '00000000-0000-0000-0000-0000000000b2' AND user_id = '00000000-0000-0000-0000-0000000000a3';
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a3');
+DELETE FROM public.group_members
+WHERE group_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a5';
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a5');
+SELECT ok(
+  public.is_group_member('00000000-0000-0000-0000-0000000000b1'),
+  'members cannot remove other members'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a2');
+DELETE FROM public.group_members
+WHERE group_id = '00000000-0000-0000-0000-0000000000b1' AND user_id = '00000000-0000-0000-0000-0000000000a5';
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a5');
+SELECT ok(
+  NOT public.is_group_member('00000000-0000-0000-0000-0000000000b1'),
+  'moderators can remove plain members'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a4');
+DELETE FROM public.group_members
+WHERE group_id = '00000000-0000-0000-0000-0000000000b3' AND user_id = '00000000-0000-0000-0000-0000000000a4';
+SELECT ok(
+  NOT public.is_group_member('00000000-0000-0000-0000-0000000000b3'),
+  'members can leave a group'
+);
+
+-- messages: reading
+SELECT pg_temp.act_as(NULL);
+SELECT is_empty($$SELECT 1 FROM public.messages$$, 'anonymous visitors cannot read any messages');
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a5');
+SELECT is_empty(
+  $$SELECT 1 FROM public.messages WHERE group_id = '00000000-0000-0000-0000-0000000000b1'$$,
+  'non-members cannot read messages in public groups'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.messages WHERE group_id = '00000000-0000-0000-0000-0000000000b2'$$,
+  'non-members cannot read messages in private groups'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.messages WHERE group_id = '00000000-0000-0000-0000-0000000000b3'$$,
+  'non-members cannot read messages in invite-only groups'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a3');
+SELECT is(
+  (SELECT count(*)::INT FROM public.messages),
+  4,
+  'members read every message in their groups'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a2');
+SELECT is(
+  (SELECT count(*)::INT FROM public.messages WHERE group_id = '00000000-0000-0000-0000-0000000000b2'),
+  2,
+  'moderators read messages in their groups'
+);
+
+-- messages: writing
+SELECT pg_temp.act_as(NULL);
+SELECT throws_ok(
+  $$INSERT INTO public.messages (group_id, user_id, content) VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a3', 'Anon')$$,
+  '42501', NULL,
+  'anonymous visitors cannot post messages'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a5');
+SELECT throws_ok(
+  $$INSERT INTO public.messages (group_id, user_id, content) VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a5', 'Hi')$$,
+  '42501', NULL,
+  'non-members cannot post in public groups'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.messages (group_id, user_id, content) VALUES ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a5', 'Hi')$$,
+  '42501', NULL,
+  'non-members cannot post in private groups'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a3');
+SELECT lives_ok(
+  $$INSERT INTO public.messages (group_id, user_id, content) VALUES ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-0000000000a3', 'Hi')$$,
+  'members can post in their groups'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.messages (group_id, user_id, content) VALUES ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a1', 'Forged')$$,
+  '42501', NULL,
+  'members cannot post as someone else'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.messages (group_id, user_id, content, message_type, file_url, file_name)
+    VALUES ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a3', 'file', 'file',
+            '00000000-0000-0000-0000-0000000000b1/00000000-0000-0000-0000-0000000000a3/notes.pdf', 'notes.pdf')$$,
+  '42501', NULL,
+  'attachments must live under the group and author folder'
+);
+
+UPDATE public.messages SET content = 'Edited' WHERE id = '00000000-0000-0000-0000-0000000000c1';
+SELECT is(
+  (SELECT content FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  'Edited',
+  'authors can edit their messages'
+);
+UPDATE public.messages SET content = 'Tampered' WHERE id = '00000000-0000-0000-0000-0000000000c4';
+SELECT is(
+  (SELECT content FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000c4'),
+  'Owner note',
+  'members cannot edit other members'' messages'
+);
+SELECT throws_ok(
+  $$UPDATE public.messages SET group_id = '00000000-0000-0000-0000-0000000000b3' WHERE id = '00000000-0000-0000-0000-0000000000c1'$$,
+  '42501', NULL,
+  'messages cannot be moved to another group'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a5');
+UPDATE public.messages SET deleted_at = now() WHERE id = '00000000-0000-0000-0000-0000000000c1';
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a3');
+SELECT is(
+  (SELECT deleted_at FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  NULL,
+  'non-members cannot delete messages'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a2');
+SELECT throws_ok(
+  $$UPDATE public.messages SET content = 'Moderated' WHERE id = '00000000-0000-0000-0000-0000000000c1'$$,
+  'P0001', NULL,
+  'moderators cannot rewrite other members'' messages'
+);
+UPDATE public.messages SET deleted_at = now() WHERE id = '00000000-0000-0000-0000-0000000000c1';
+SELECT isnt(
+  (SELECT deleted_at FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  NULL,
+  'moderators can delete messages in their groups'
+);
+SELECT is(
+  (SELECT content FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  '',
+  'deleting a message clears its content'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a1');
+UPDATE public.messages SET deleted_at = now() WHERE id = '00000000-0000-0000-0000-0000000000c2';
+SELECT isnt(
+  (SELECT deleted_at FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000c2'),
+  NULL,
+  'admins can delete messages in their groups'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
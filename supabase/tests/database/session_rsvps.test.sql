@@ -0,0 +1,69 @@
+-- RSVPs to group sessions go through set_session_rsvp.
+BEGIN;
+SELECT plan(7);
+
+CREATE FUNCTION pg_temp.act_as(p_user_id UUID) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('role', 'none', true);
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+  PERFORM set_config('role', 'authenticated', true);
+END;
+$$;
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'member@example.com', '{"full_name": "Member"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'outsider@example.com', '{"full_name": "Outsider"}');
+
+INSERT INTO public.study_groups (id, name, creator_id) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', 'Group', '00000000-0000-0000-0000-0000000000a1');
+
+INSERT INTO public.group_members (group_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'admin');
+
+INSERT INTO public.group_sessions (id, group_id, created_by, title, starts_at, ends_at) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1',
+   '00000000-0000-0000-0000-0000000000a1', 'Revision', now() + interval '1 day', now() + interval '1 day 1 hour');
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a1');
+SELECT lives_ok(
+  $$SELECT public.set_session_rsvp('00000000-0000-0000-0000-0000000000c1', 'going')$$,
+  'members can RSVP to a session'
+);
+SELECT lives_ok(
+  $$SELECT public.set_session_rsvp('00000000-0000-0000-0000-0000000000c1', 'maybe')$$,
+  'members can change their RSVP'
+);
+SELECT is(
+  (SELECT status FROM public.session_rsvps
+   WHERE session_id = '00000000-0000-0000-0000-0000000000c1' AND user_id = '00000000-0000-0000-0000-0000000000a1'),
+  'maybe',
+  'the latest answer is kept'
+);
+SELECT throws_ok(
+  $$SELECT public.set_session_rsvp('00000000-0000-0000-0000-0000000000c1', 'perhaps')$$,
+  '23514', NULL,
+  'unknown statuses are rejected'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.session_rsvps (session_id, user_id, status)
+    VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a2', 'going')$$,
+  '42501', NULL,
+  'RSVPs cannot be written directly'
+);
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a2');
+SELECT throws_ok(
+  $$SELECT public.set_session_rsvp('00000000-0000-0000-0000-0000000000c1', 'going')$$,
+  'P0001', 'Only group members can RSVP to a session',
+  'non-members cannot RSVP'
+);
+SELECT throws_ok(
+  $$SELECT public.set_session_rsvp('00000000-0000-0000-0000-0000000000c9', 'going')$$,
+  'P0001', 'Only group members can RSVP to a session',
+  'unknown sessions are rejected'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
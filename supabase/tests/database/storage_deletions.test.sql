@@ -0,0 +1,82 @@
+-- Files are only queued for deletion from their owner's folder, and rows can
+-- only point at files their owner uploaded.
+BEGIN;
+SELECT plan(7);
+
+CREATE FUNCTION pg_temp.act_as(p_user_id UUID) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('role', 'none', true);
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+  PERFORM set_config('role', 'authenticated', true);
+END;
+$$;
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com', '{"full_name": "Owner"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'other@example.com', '{"full_name": "Other"}');
+
+-- A row that points outside its owner's folder, as older policies allowed
+INSERT INTO public.resources (id, user_id, title, file_url) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a2', 'Borrowed',
+   '00000000-0000-0000-0000-0000000000a1/notes.pdf');
+
+INSERT INTO public.study_groups (id, name, creator_id) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', 'Group', '00000000-0000-0000-0000-0000000000a1');
+
+INSERT INTO public.group_members (group_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'admin');
+
+INSERT INTO public.messages (id, group_id, user_id, content, message_type, file_url, file_name) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1',
+   'photo.png', 'file', '00000000-0000-0000-0000-0000000000b1/00000000-0000-0000-0000-0000000000a1/photo.png', 'photo.png');
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a1');
+UPDATE public.messages SET deleted_at = now() WHERE id = '00000000-0000-0000-0000-0000000000c1';
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-0000000000a2');
+SELECT throws_ok(
+  $$INSERT INTO public.resources (user_id, title, file_url)
+    VALUES ('00000000-0000-0000-0000-0000000000a2', 'Stolen', '00000000-0000-0000-0000-0000000000a1/notes.pdf')$$,
+  '42501', NULL,
+  'resources cannot point at files in another user''s folder'
+);
+SELECT throws_ok(
+  $$UPDATE public.resources SET file_url = '00000000-0000-0000-0000-0000000000a1/other.pdf'
+    WHERE id = '00000000-0000-0000-0000-0000000000d1'$$,
+  '42501', NULL,
+  'resources cannot be repointed at another user''s files'
+);
+SELECT lives_ok(
+  $$INSERT INTO public.resources (id, user_id, title, file_url)
+    VALUES ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000a2', 'Mine',
+            '00000000-0000-0000-0000-0000000000a2/mine.pdf')$$,
+  'resources can point at files in their owner''s folder'
+);
+
+DELETE FROM public.resources WHERE id IN ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000d2');
+
+RESET ROLE;
+SELECT is(
+  (SELECT count(*)::INT FROM public.resources WHERE id IN ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000d2')),
+  0,
+  'owners can delete their resources'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.storage_deletions WHERE object_path = '00000000-0000-0000-0000-0000000000a1/notes.pdf'$$,
+  'deleting a row does not queue a file outside its owner''s folder'
+);
+SELECT isnt_empty(
+  $$SELECT 1 FROM public.storage_deletions WHERE bucket_id = 'resources' AND object_path = '00000000-0000-0000-0000-0000000000a2/mine.pdf'$$,
+  'deleting a row queues its own file'
+);
+SELECT isnt_empty(
+  $$SELECT 1 FROM public.storage_deletions
+    WHERE bucket_id = 'chat-attachments'
+      AND object_path = '00000000-0000-0000-0000-0000000000b1/00000000-0000-0000-0000-0000000000a1/photo.png'$$,
+  'deleting a chat message queues its attachment'
+);
+
+SELECT * FROM finish();
+ROLLBACK;